@@ -24,6 +24,16 @@ const agentDocumentsRoute = require('./src/routes/agentDocuments');
 const contactsRoutes = require('./src/routes/contacts');
 const profileRoutes = require('./src/routes/profile');
 const dashboardRoutes = require('./src/routes/dashboard');
+const outboundMessagesRoutes = require('./src/routes/outboundMessages');
+const outboundQueueRoutes = require('./src/routes/outboundQueue');
+const scheduledMessagesRoutes = require('./src/routes/scheduledMessages');
+const campaignsRoutes = require('./src/routes/campaigns');
+const messageTemplatesRoutes = require('./src/routes/messageTemplates');
+const webhookSecretRoutes = require('./src/routes/webhookSecret');
+const apiKeysRoutes = require('./src/routes/apiKeys');
+const suppressionsRoutes = require('./src/routes/suppressions');
+const webhookOutboxRoutes = require('./src/routes/webhookOutbox');
+const { verifyWebhookSignature, verifyWebhookSignatureOrApiKey } = require('./src/middleware/webhookSignature');
 
 // ============================================================================
 // ENVIRONMENT VALIDATION
@@ -153,8 +163,8 @@ const corsOptions = {
   },
   credentials: true, // ✅ CRITICAL: Required for HttpOnly cookies
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Idempotency-Key'], // ✅ Allow idempotency header
-  exposedHeaders: ['Content-Length', 'X-Request-Id', 'Set-Cookie'], // ✅ Allow Set-Cookie header
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Idempotency-Key', 'Idempotency-Key'], // ✅ Allow idempotency headers
+  exposedHeaders: ['Content-Length', 'X-Request-Id', 'Set-Cookie', 'Idempotent-Replayed'], // ✅ Allow Set-Cookie header
   maxAge: 86400, // 24 hours
 };
 
@@ -222,8 +232,12 @@ const messageSendLimiter = rateLimit ? rateLimit({
 app.use(cookieParser());
 
 // Body parsing
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ limit: '50mb', extended: true }));
+// The raw body is kept so webhook signatures can be verified over the exact bytes received
+const keepRawBody = (req, res, buf) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ limit: '50mb', verify: keepRawBody }));
+app.use(express.urlencoded({ limit: '50mb', extended: true, verify: keepRawBody }));
 
 // Serve static files from public directory (frontend build)
 // This allows the backend to serve the React frontend
@@ -320,19 +334,31 @@ app.use('/api/whatsapp', whatsappRoutes);
 // Agent routes (rate limiting disabled)
 app.use('/api/agents', agentRoutes);
 app.use('/api/agents', contactsRoutes);
+app.use('/api/agents', outboundMessagesRoutes);
+app.use('/api/agents', outboundQueueRoutes);
+app.use('/api/agents', scheduledMessagesRoutes);
+app.use('/api/agents', campaignsRoutes);
+app.use('/api/agents', messageTemplatesRoutes);
+app.use('/api/agents', webhookSecretRoutes);
+app.use('/api/agents', apiKeysRoutes);
+app.use('/api/agents', suppressionsRoutes);
+app.use('/api/agents', webhookOutboxRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/process-agent-file', processAgentFileRoute);
 app.use('/api/agent-documents', agentDocumentsRoute);
 
+// Public webhooks are authenticated with the agent's HMAC webhook secret (see middleware/webhookSignature.js);
+// send-message also accepts an agent API key with the messages:send scope
+
 // Webhook for external document uploads (no /api prefix to match external contract)
-app.use('/webhookupload-documents', webhookUploadRoute);
+app.use('/webhookupload-documents', verifyWebhookSignature, webhookUploadRoute);
 
-// Webhook for N8N to send WhatsApp messages (public endpoint)
-app.use('/api/webhooks/send-message', webhookSendMessageRoute);
+// Webhook for N8N to send WhatsApp messages
+app.use('/api/webhooks/send-message', verifyWebhookSignatureOrApiKey('messages:send'), webhookSendMessageRoute);
 
-// Document extraction endpoint (used by frontend after file upload)
-app.use('/extract-pdf', extractPdfRoute);
+// Document extraction endpoint
+app.use('/extract-pdf', verifyWebhookSignature, extractPdfRoute);
 
 // ============================================================================
 // ERROR HANDLERS
@@ -401,6 +427,10 @@ process.on('unhandledRejection', (reason, promise) => {
 
 // Initialize existing WhatsApp sessions on startup
 const { initializeExistingSessions } = require('./src/services/baileysService');
+const { startOutboundQueueWorker, stopOutboundQueueWorker } = require('./src/services/outboundQueueService');
+const { startScheduledMessageWorker, stopScheduledMessageWorker } = require('./src/services/scheduledMessageService');
+const { startCampaignWorker, stopCampaignWorker } = require('./src/services/campaignService');
+const { startWebhookOutboxWorker, stopWebhookOutboxWorker } = require('./src/services/webhookOutboxService');
 
 // Start the server
 const server = app.listen(PORT, '0.0.0.0', async () => {
@@ -423,12 +453,22 @@ const server = app.listen(PORT, '0.0.0.0', async () => {
       console.error('Error initializing WhatsApp sessions:', error.message);
       console.log('⚠️  WhatsApp session initialization failed, but server is running');
     }
+
+    // Queued, scheduled and campaign messages are sent once sessions come back up
+    startOutboundQueueWorker();
+    startScheduledMessageWorker();
+    startCampaignWorker();
+    startWebhookOutboxWorker();
   }, 3000); // Wait 3 seconds for database to be ready
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('📴 SIGTERM received, shutting down gracefully...');
+  stopOutboundQueueWorker();
+  stopScheduledMessageWorker();
+  stopCampaignWorker();
+  stopWebhookOutboxWorker();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -437,6 +477,10 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('📴 SIGINT received, shutting down gracefully...');
+  stopOutboundQueueWorker();
+  stopScheduledMessageWorker();
+  stopCampaignWorker();
+  stopWebhookOutboxWorker();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- MIGRATION: Add Group Chat Support
+-- Created: 2025-12-01
+-- Description: Opt-in per-agent group mode and group context on message_log
+-- ============================================================================
+
+-- Per-agent group settings
+-- Shape: { "enabled": bool, "respondToMentions": bool, "respondToReplies": bool, "keywords": string[] }
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS group_chat_settings JSONB DEFAULT '{"enabled": false}'::jsonb;
+
+-- Group context for logged messages (conversation_id holds the group JID)
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS participant_jid TEXT,
+ADD COLUMN IF NOT EXISTS group_subject TEXT;
+
+-- Index for listing group conversations per agent
+CREATE INDEX IF NOT EXISTS idx_message_log_agent_conversation
+ON message_log(agent_id, conversation_id);
+
+COMMENT ON COLUMN agents.group_chat_settings IS 'Group mode: forward group messages only on mention, reply or keyword match';
+COMMENT ON COLUMN message_log.participant_jid IS 'Sender JID inside a group conversation';
+COMMENT ON COLUMN message_log.group_subject IS 'Group name at the time the message was received';
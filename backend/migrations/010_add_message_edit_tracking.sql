@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRATION: Track Message Edits and Revokes
+-- Created: 2025-12-01
+-- Description: Flag edited and "deleted for everyone" messages on message_log
+-- ============================================================================
+
+-- Edit history itself is stored in metadata.editHistory
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN message_log.edited_at IS 'When the sender last edited this message';
+COMMENT ON COLUMN message_log.revoked_at IS 'When the sender deleted this message for everyone (text is kept for audit)';
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- MIGRATION: Outbound Delivery Tracking
+-- Created: 2025-12-01
+-- Description: Persist outbound WhatsApp messages with a delivery status lifecycle
+--              (pending -> sent -> delivered -> read, or failed)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS outbound_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  remote_jid TEXT NOT NULL,
+  wa_message_id TEXT NOT NULL,
+  message_type VARCHAR(50) NOT NULL DEFAULT 'TEXT',
+  content_preview TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'delivered', 'read', 'failed')),
+  error_message TEXT,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT outbound_messages_agent_wa_message_unique UNIQUE (agent_id, wa_message_id)
+);
+
+-- Listing per agent, newest first, optionally filtered by status
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_agent_created
+ON outbound_messages(agent_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_agent_status
+ON outbound_messages(agent_id, status);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE outbound_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view outbound messages of their agents"
+  ON outbound_messages FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE outbound_messages IS 'Outbound WhatsApp messages and their delivery/read receipts';
+COMMENT ON COLUMN outbound_messages.wa_message_id IS 'WhatsApp message key id, matched against messages.update receipts';
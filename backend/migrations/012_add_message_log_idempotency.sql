@@ -0,0 +1,35 @@
+-- ============================================================================
+-- MIGRATION: Idempotent Inbound Ingestion
+-- Created: 2025-12-01
+-- Description: One message_log row per (agent_id, message_id) and forward tracking
+--              so redelivered messages are neither logged nor forwarded twice
+-- ============================================================================
+
+-- Remove existing duplicates, keeping the earliest row of each message
+DELETE FROM message_log a
+USING message_log b
+WHERE a.agent_id = b.agent_id
+  AND a.message_id = b.message_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+-- Unique key used by the upsert in messages.upsert (ON CONFLICT DO NOTHING);
+-- its index also serves the edit/revoke lookup of the original row
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'message_log_agent_message_unique'
+  ) THEN
+    ALTER TABLE message_log
+    ADD CONSTRAINT message_log_agent_message_unique UNIQUE (agent_id, message_id);
+  END IF;
+END $$;
+
+-- Forward tracking: a row is claimed by one instance before forwarding,
+-- and forwarded_at is set only after the webhook accepted it
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS forwarded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS forward_claimed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS forward_claimed_by VARCHAR(255);
+
+COMMENT ON COLUMN message_log.forwarded_at IS 'When the message was successfully forwarded to the inbound webhook';
+COMMENT ON COLUMN message_log.forward_claimed_by IS 'Instance currently forwarding this message (lease expires after 60s)';
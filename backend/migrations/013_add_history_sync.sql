@@ -0,0 +1,20 @@
+-- ============================================================================
+-- MIGRATION: History Backfill
+-- Created: 2025-12-01
+-- Description: Opt-in per-agent import of recent 1:1 history from WhatsApp sync,
+--              and a source column distinguishing live messages from imported ones
+-- ============================================================================
+
+-- Shape: { "enabled": bool, "days": number }
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS history_sync_settings JSONB DEFAULT '{"enabled": false, "days": 30}'::jsonb;
+
+-- 'whatsapp' for live traffic, 'history_sync' for backfilled rows (never forwarded)
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS source VARCHAR(30) NOT NULL DEFAULT 'whatsapp';
+
+CREATE INDEX IF NOT EXISTS idx_message_log_source
+ON message_log(agent_id, source);
+
+COMMENT ON COLUMN agents.history_sync_settings IS 'Import the last N days of 1:1 history after pairing';
+COMMENT ON COLUMN message_log.source IS 'Origin of the row: whatsapp (live) or history_sync (backfill)';
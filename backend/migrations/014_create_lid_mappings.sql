@@ -0,0 +1,32 @@
+-- ============================================================================
+-- MIGRATION: LID to Phone Number Mappings
+-- Created: 2025-12-01
+-- Description: Persist WhatsApp LID (…@lid) <-> phone number pairs per agent,
+--              learned from contact, chat and message events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS whatsapp_lid_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  lid VARCHAR(64) NOT NULL,
+  phone_number VARCHAR(32) NOT NULL,
+  source VARCHAR(30) NOT NULL DEFAULT 'message',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT whatsapp_lid_mappings_agent_lid_unique UNIQUE (agent_id, lid)
+);
+
+-- Reverse lookup (phone number -> LID)
+CREATE INDEX IF NOT EXISTS idx_whatsapp_lid_mappings_agent_phone
+ON whatsapp_lid_mappings(agent_id, phone_number);
+
+ALTER TABLE whatsapp_lid_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view LID mappings of their agents"
+  ON whatsapp_lid_mappings FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE whatsapp_lid_mappings IS 'WhatsApp LID <-> phone number pairs used to resolve sender_phone and reply targets';
+COMMENT ON COLUMN whatsapp_lid_mappings.source IS 'Where the pair was learned: message, contacts, history_sync, phone_number_share';
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- MIGRATION: Voice-Note Transcription Settings
+-- Created: 2025-12-01
+-- Description: Per-agent duration limit and language hint for voice-note transcription
+-- ============================================================================
+
+-- Shape: { "enabled": bool, "maxDurationSeconds": number, "language": "en" | null }
+-- Transcripts are written to message_log.message_text and metadata.transcript
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS transcription_settings JSONB DEFAULT '{"enabled": true, "maxDurationSeconds": 300}'::jsonb;
+
+COMMENT ON COLUMN agents.transcription_settings IS 'Voice-note transcription: enabled flag, max duration (seconds) and language hint';
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- MIGRATION: Outbound Message Logging
+-- Created: 2025-12-01
+-- Description: Record direction, origin, request id and WhatsApp key on message_log
+--              so API-originated sends appear alongside inbound traffic
+-- ============================================================================
+
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS direction VARCHAR(10),
+ADD COLUMN IF NOT EXISTS request_id VARCHAR(255),
+ADD COLUMN IF NOT EXISTS wa_key JSONB;
+
+-- Backfill direction for existing rows from metadata
+UPDATE message_log
+SET direction = metadata->>'direction'
+WHERE direction IS NULL
+  AND metadata->>'direction' IN ('incoming', 'outgoing');
+
+-- Per-direction counts for agent statistics
+CREATE INDEX IF NOT EXISTS idx_message_log_agent_direction
+ON message_log(agent_id, direction);
+
+-- Trace a send back to the originating request
+CREATE INDEX IF NOT EXISTS idx_message_log_request_id
+ON message_log(request_id)
+WHERE request_id IS NOT NULL;
+
+COMMENT ON COLUMN message_log.direction IS 'incoming or outgoing';
+COMMENT ON COLUMN message_log.source IS 'Origin of the row: whatsapp (live), history_sync (backfill), api, webhook, manual or ai (outbound sends)';
+COMMENT ON COLUMN message_log.request_id IS 'Request id of the API call that sent this message';
+COMMENT ON COLUMN message_log.wa_key IS 'WhatsApp message key ({ remoteJid, fromMe, id }) returned by the send';
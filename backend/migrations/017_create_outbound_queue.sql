@@ -0,0 +1,60 @@
+-- ============================================================================
+-- MIGRATION: Outbound Message Queue
+-- Created: 2025-12-01
+-- Description: Durable per-agent outbound queue drained by the backend worker with
+--              per-agent throttling (messages per minute + jitter) and retries
+-- ============================================================================
+
+-- Shape: { "messagesPerMinute": number, "jitterSeconds": number }
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS outbound_queue_settings JSONB DEFAULT '{"messagesPerMinute": 20, "jitterSeconds": 3}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS outbound_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  wa_message_id TEXT,
+  tracking_id UUID,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  sent_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Worker scan: due queued messages, oldest first
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_due
+ON outbound_queue(status, next_attempt_at, created_at);
+
+-- Status API: listing per agent, newest first
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_agent_created
+ON outbound_queue(agent_id, created_at DESC);
+
+-- Worker: oldest due message of each connected agent
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_agent_due
+ON outbound_queue(agent_id, created_at, next_attempt_at)
+WHERE status = 'queued';
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE outbound_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view queued messages of their agents"
+  ON outbound_queue FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE outbound_queue IS 'Outbound WhatsApp messages waiting to be sent by the queue worker';
+COMMENT ON COLUMN outbound_queue.payload IS 'sendMessage payload: { text } or { media }';
+COMMENT ON COLUMN outbound_queue.locked_by IS 'Worker instance holding the send claim (released after 2 minutes)';
+COMMENT ON COLUMN agents.outbound_queue_settings IS 'Outbound queue throttling: messages per minute and random jitter (seconds)';
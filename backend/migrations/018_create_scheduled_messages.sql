@@ -0,0 +1,54 @@
+-- ============================================================================
+-- MIGRATION: Scheduled Messages
+-- Created: 2025-12-01
+-- Description: Messages stored for dispatch at a future time (e.g. appointment
+--              reminders), sent by the backend scheduler worker
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  created_by UUID,
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  local_time VARCHAR(19),
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  last_error TEXT,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  wa_message_id TEXT,
+  tracking_id UUID,
+  sent_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Worker scan: due messages still waiting to be sent
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+ON scheduled_messages(next_attempt_at)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_agent_scheduled
+ON scheduled_messages(agent_id, scheduled_at);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view scheduled messages of their agents"
+  ON scheduled_messages FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE scheduled_messages IS 'Outbound WhatsApp messages to be sent at a future time';
+COMMENT ON COLUMN scheduled_messages.scheduled_at IS 'Due time in UTC (converted from local_time in timezone when given)';
+COMMENT ON COLUMN scheduled_messages.local_time IS 'Wall-clock time as requested, interpreted in timezone';
+COMMENT ON COLUMN message_log.source IS 'Origin of the row: whatsapp (live), history_sync (backfill), api, webhook, manual, ai or scheduled (outbound sends)';
@@ -0,0 +1,85 @@
+-- ============================================================================
+-- MIGRATION: Broadcast Campaigns
+-- Created: 2025-12-01
+-- Description: Campaigns that message an agent's contacts from a template, with
+--              per-recipient delivery status and contact opt-out tracking
+-- ============================================================================
+
+-- Opted-out contacts are never included in campaigns
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS opted_out BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS opted_out_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  created_by UUID,
+  name VARCHAR(100) NOT NULL,
+  message_template TEXT NOT NULL,
+  media JSONB,
+  contact_filter JSONB NOT NULL DEFAULT '{}'::jsonb,
+  messages_per_minute NUMERIC NOT NULL DEFAULT 20,
+  jitter_seconds NUMERIC NOT NULL DEFAULT 3,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'paused', 'completed', 'cancelled')),
+  total_recipients INTEGER NOT NULL DEFAULT 0,
+  excluded_opted_out INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  phone_number VARCHAR(50) NOT NULL,
+  contact_name VARCHAR(255),
+  rendered_message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  wa_message_id TEXT,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT campaign_recipients_campaign_phone_unique UNIQUE (campaign_id, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_agent_created
+ON campaigns(agent_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_running
+ON campaigns(status)
+WHERE status = 'running';
+
+-- Worker picks the next pending recipient; reports count per status
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_campaign_status
+ON campaign_recipients(campaign_id, status, created_at);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view campaigns of their agents"
+  ON campaigns FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view campaign recipients of their agents"
+  ON campaign_recipients FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE campaigns IS 'Broadcast campaigns sending a templated message to an agent''s contacts';
+COMMENT ON COLUMN campaigns.message_template IS 'Message text with {{name}}, {{company}}, {{email}} or {{phone_number}} variables';
+COMMENT ON TABLE campaign_recipients IS 'Per-recipient delivery status of a campaign';
+COMMENT ON COLUMN contacts.opted_out IS 'Contact asked not to receive broadcast messages';
+COMMENT ON COLUMN message_log.source IS 'Origin of the row: whatsapp (live), history_sync (backfill), api, webhook, manual, ai, scheduled or campaign (outbound sends)';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRATION: Humanized Reply Pacing
+-- Created: 2025-12-01
+-- Description: Per-agent opt-in to mark chats read and show a typing indicator
+--              before outbound messages are sent
+-- ============================================================================
+
+-- Shape: { "enabled": bool, "minDelaySeconds": number, "maxDelaySeconds": number }
+-- The typing time scales with message length and is clamped to [minDelaySeconds, maxDelaySeconds]
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS humanize_settings JSONB DEFAULT '{"enabled": false, "minDelaySeconds": 1, "maxDelaySeconds": 8}'::jsonb;
+
+COMMENT ON COLUMN agents.humanize_settings IS 'Humanized sending: read receipt plus typing indicator for a length-proportional delay';
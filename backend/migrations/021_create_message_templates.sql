@@ -0,0 +1,36 @@
+-- ============================================================================
+-- MIGRATION: Message Templates
+-- Created: 2025-12-01
+-- Description: Per-agent library of reusable messages with {{variables}},
+--              optional media attachment and language variants
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  name VARCHAR(64) NOT NULL,
+  language VARCHAR(16) NOT NULL DEFAULT 'default',
+  description VARCHAR(255),
+  body TEXT NOT NULL DEFAULT '',
+  variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  media JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT message_templates_agent_name_language_unique UNIQUE (agent_id, name, language)
+);
+
+-- The unique constraint also serves template lookups by (agent_id, name)
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view message templates of their agents"
+  ON message_templates FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE message_templates IS 'Reusable per-agent messages referenced by name from the send-message webhook';
+COMMENT ON COLUMN message_templates.language IS 'Language variant (e.g. en, en-US, ur); "default" is used when no better match exists';
+COMMENT ON COLUMN message_templates.variables IS 'Declared variables: [{ "name": "amount", "defaultValue": "..." }]; undeclared {{variables}} are required';
+COMMENT ON COLUMN message_templates.media IS 'Optional media attachment ({ type, url, mimetype, fileName }); the rendered body becomes its caption';
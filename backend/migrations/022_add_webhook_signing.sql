@@ -0,0 +1,26 @@
+-- ============================================================================
+-- MIGRATION: Webhook Signing Secrets
+-- Created: 2025-12-01
+-- Description: Per-agent HMAC secrets for the public webhooks (send-message,
+--              upload-documents, extract-pdf) and for outbound n8n calls,
+--              with a grace period for the previous secret after rotation
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS webhook_secret TEXT,
+ADD COLUMN IF NOT EXISTS webhook_secret_previous TEXT,
+ADD COLUMN IF NOT EXISTS webhook_secret_rotated_at TIMESTAMPTZ;
+
+-- Every agent gets a secret, including agents created from now on
+ALTER TABLE agents
+ALTER COLUMN webhook_secret SET DEFAULT 'whsec_' || encode(gen_random_bytes(32), 'hex');
+
+UPDATE agents
+SET webhook_secret = 'whsec_' || encode(gen_random_bytes(32), 'hex')
+WHERE webhook_secret IS NULL;
+
+COMMENT ON COLUMN agents.webhook_secret IS 'HMAC-SHA256 key: signs outbound webhooks and verifies X-Webhook-Signature on public webhooks';
+COMMENT ON COLUMN agents.webhook_secret_previous IS 'Secret replaced by the last rotation; still accepted during the grace period (WEBHOOK_SECRET_GRACE_HOURS)';
+COMMENT ON COLUMN agents.webhook_secret_rotated_at IS 'When webhook_secret was last rotated';
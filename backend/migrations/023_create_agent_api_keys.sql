@@ -0,0 +1,42 @@
+-- ============================================================================
+-- MIGRATION: Agent API Keys
+-- Created: 2025-12-01
+-- Description: Long-lived, scoped, revocable API keys per agent for programmatic
+--              access; only a SHA-256 hash of each key is stored
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS agent_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash CHAR(64) NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT agent_api_keys_key_hash_unique UNIQUE (key_hash),
+  CONSTRAINT agent_api_keys_scopes_check CHECK (
+    scopes <@ ARRAY['messages:send', 'contacts:read', 'contacts:write', 'kb:query']::TEXT[]
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_api_keys_agent
+ON agent_api_keys(agent_id, created_at DESC);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE agent_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view API keys of their agents"
+  ON agent_api_keys FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE agent_api_keys IS 'Scoped API keys accepted by authMiddleware on routes declared with requireScope()';
+COMMENT ON COLUMN agent_api_keys.user_id IS 'Agent owner the key acts on behalf of';
+COMMENT ON COLUMN agent_api_keys.key_prefix IS 'First characters of the key, shown to identify it (the key itself is never stored)';
+COMMENT ON COLUMN agent_api_keys.key_hash IS 'SHA-256 hex digest of the full key';
+COMMENT ON COLUMN agent_api_keys.scopes IS 'Granted scopes: messages:send, contacts:read, contacts:write, kb:query';
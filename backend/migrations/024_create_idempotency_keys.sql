@@ -0,0 +1,38 @@
+-- ============================================================================
+-- MIGRATION: Send-Message Idempotency Keys
+-- Created: 2025-12-01
+-- Description: Idempotency keys for /api/webhooks/send-message; the first response
+--              is stored and returned for repeats within the retention window
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_hash CHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT idempotency_keys_agent_key_unique UNIQUE (agent_id, idempotency_key),
+  CONSTRAINT idempotency_keys_status_check CHECK (status IN ('processing', 'completed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+ON idempotency_keys(expires_at);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view idempotency keys of their agents"
+  ON idempotency_keys FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key / clientMessageId values seen on send-message, with the response returned for them';
+COMMENT ON COLUMN idempotency_keys.request_hash IS 'SHA-256 of the request body; a key reused with a different body is rejected';
+COMMENT ON COLUMN idempotency_keys.status IS 'processing while the first request runs, completed once its response is stored';
+COMMENT ON COLUMN idempotency_keys.expires_at IS 'End of the retention window (IDEMPOTENCY_RETENTION_HOURS); expired rows are purged';
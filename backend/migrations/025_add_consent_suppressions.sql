@@ -0,0 +1,60 @@
+-- ============================================================================
+-- MIGRATION: Opt-Out Keywords and Suppression List
+-- Created: 2025-12-01
+-- Description: Per-agent opt-out/opt-in keywords and a suppression list of numbers
+--              that must not receive outbound messages
+-- ============================================================================
+
+-- Shape: { "enabled": bool, "optOutKeywords": string[], "optInKeywords": string[],
+--          "optOutReply": string, "optInReply": string }
+-- A keyword only matches when it is the whole message (case and punctuation are ignored).
+-- Keyword handling is off until the operator enables it for the agent
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS consent_settings JSONB DEFAULT '{
+  "enabled": false,
+  "optOutKeywords": ["STOP", "UNSUBSCRIBE", "STOP ALL", "OPT OUT"],
+  "optInKeywords": ["START", "SUBSCRIBE", "UNSTOP"],
+  "optOutReply": "You have been unsubscribed and will not receive further messages. Reply START to subscribe again.",
+  "optInReply": "You are subscribed again. Reply STOP at any time to unsubscribe."
+}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS contact_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  phone_number VARCHAR(50) NOT NULL,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  reason VARCHAR(20) NOT NULL DEFAULT 'manual'
+    CHECK (reason IN ('keyword', 'manual')),
+  keyword VARCHAR(100),
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT contact_suppressions_agent_phone_unique UNIQUE (agent_id, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_suppressions_contact
+ON contact_suppressions(contact_id)
+WHERE contact_id IS NOT NULL;
+
+-- Existing opted-out contacts start out suppressed
+INSERT INTO contact_suppressions (agent_id, phone_number, contact_id, reason, created_at)
+SELECT agent_id, regexp_replace(phone_number, '\D', '', 'g'), id, 'manual', COALESCE(opted_out_at, NOW())
+FROM contacts
+WHERE opted_out = true
+  AND regexp_replace(phone_number, '\D', '', 'g') <> ''
+ON CONFLICT (agent_id, phone_number) DO NOTHING;
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE contact_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suppressions of their agents"
+  ON contact_suppressions FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON COLUMN agents.consent_settings IS 'Opt-out/opt-in keywords detected on incoming messages, with their confirmation replies';
+COMMENT ON TABLE contact_suppressions IS 'Numbers that opted out; every outbound path (send-message, queue, scheduled, campaigns) refuses them';
+COMMENT ON COLUMN contact_suppressions.phone_number IS 'Digits only, as sent to WhatsApp';
+COMMENT ON COLUMN contact_suppressions.contact_id IS 'Matching contact, whose opted_out flag is kept in sync';
+COMMENT ON COLUMN contact_suppressions.reason IS 'keyword (customer replied with an opt-out keyword) or manual';
+COMMENT ON COLUMN message_log.source IS 'Origin of the row: whatsapp (live), history_sync (backfill), api, webhook, manual, ai, scheduled, campaign or consent (outbound sends)';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRATION: Per-Agent Inbound Webhook
+-- Created: 2025-12-01
+-- Description: Lets each agent forward incoming messages to its own n8n workflow
+--              instead of the environment-wide WHATSAPP_MESSAGE_WEBHOOK
+-- ============================================================================
+
+-- Shape: { "url": string|null, "testUrl": string|null, "useTestUrl": bool }
+-- With useTestUrl the test URL is used; without a url the environment webhook is the fallback
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS inbound_webhook_settings JSONB DEFAULT '{"url": null, "testUrl": null, "useTestUrl": false}'::jsonb;
+
+COMMENT ON COLUMN agents.inbound_webhook_settings IS 'Per-agent inbound webhook URL and optional test URL; falls back to the environment webhook';
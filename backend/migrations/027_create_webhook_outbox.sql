@@ -0,0 +1,69 @@
+-- ============================================================================
+-- MIGRATION: Inbound Webhook Outbox
+-- Created: 2025-12-01
+-- Description: Durable outbox for events forwarded to the inbound webhook.
+--              Failed deliveries are retried with exponential backoff and
+--              dead-lettered after max_attempts until replayed
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  event_key VARCHAR(255),
+  event_type VARCHAR(50) NOT NULL DEFAULT 'message',
+  message_id VARCHAR(255),
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  locked_by VARCHAR(255),
+  locked_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  dead_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT webhook_outbox_agent_event_unique UNIQUE (agent_id, event_key),
+  CONSTRAINT webhook_outbox_status_check CHECK (status IN ('pending', 'delivering', 'delivered', 'dead'))
+);
+
+-- Worker poll: due pending rows, oldest first
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_due
+ON webhook_outbox(next_attempt_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_agent_status
+ON webhook_outbox(agent_id, status, created_at DESC);
+
+-- Rows are written by the backend service role only; owners may read their agents' rows
+ALTER TABLE webhook_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view webhook deliveries of their agents"
+  ON webhook_outbox FOR SELECT
+  USING (agent_id IN (
+    SELECT id FROM agents WHERE user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE webhook_outbox IS 'Events forwarded to the inbound webhook; retried with backoff and dead-lettered after max_attempts';
+COMMENT ON COLUMN webhook_outbox.event_key IS 'Deduplication key, e.g. message:<whatsapp id>; a redelivered WhatsApp message is forwarded once';
+COMMENT ON COLUMN webhook_outbox.status IS 'pending (due at next_attempt_at), delivering (claimed by locked_by), delivered or dead';
+COMMENT ON COLUMN webhook_outbox.max_attempts IS 'WEBHOOK_OUTBOX_MAX_ATTEMPTS when the event was enqueued';
+
+-- The outbox replaces the per-row forward claim on message_log; forwarded_at is still set on delivery
+ALTER TABLE message_log
+DROP COLUMN IF EXISTS forward_claimed_at,
+DROP COLUMN IF EXISTS forward_claimed_by;
+
+-- The event is written with the log row and cleared once it is in the outbox, so a message
+-- logged but never enqueued is picked up by the outbox worker
+ALTER TABLE message_log
+ADD COLUMN IF NOT EXISTS forward_payload JSONB,
+ADD COLUMN IF NOT EXISTS forward_pending_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_message_log_forward_pending
+ON message_log(forward_pending_at)
+WHERE forward_payload IS NOT NULL;
+
+COMMENT ON COLUMN message_log.forward_payload IS 'Webhook event not yet written to webhook_outbox; enqueued by the outbox worker after 5 minutes';
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- MIGRATION: Ordered Split-Message Parts
+-- Created: 2025-12-01
+-- Description: Each part of a split send-message request waits for the previous
+--              part, so a retried part can never be overtaken by the next one
+-- ============================================================================
+
+ALTER TABLE outbound_queue
+ADD COLUMN IF NOT EXISTS depends_on UUID REFERENCES outbound_queue(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_depends_on
+ON outbound_queue(depends_on)
+WHERE depends_on IS NOT NULL;
+
+COMMENT ON COLUMN outbound_queue.depends_on IS 'Previous part of the same request; this row is only sent once that one is sent, and fails if it failed or was cancelled';
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- MIGRATION: Scheduled Messages Through the Outbound Queue
+-- Created: 2025-12-01
+-- Description: Due scheduled messages are handed to the outbound queue, so they
+--              are paced by the agent's queue throttle like every other send
+-- ============================================================================
+
+ALTER TABLE scheduled_messages
+DROP CONSTRAINT IF EXISTS scheduled_messages_status_check;
+
+ALTER TABLE scheduled_messages
+ADD CONSTRAINT scheduled_messages_status_check
+CHECK (status IN ('scheduled', 'sending', 'queued', 'sent', 'failed', 'cancelled'));
+
+ALTER TABLE scheduled_messages
+ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES outbound_queue(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS queued_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN scheduled_messages.status IS 'scheduled (waiting), sending (being handed to the queue), queued (delivery tracked by outbound_queue), failed or cancelled; sent only on rows dispatched before migration 029';
+COMMENT ON COLUMN scheduled_messages.queue_id IS 'outbound_queue row that sends this message once it is due';
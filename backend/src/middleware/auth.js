@@ -1,9 +1,65 @@
 const { supabaseAdmin } = require('../config/supabase');
+const { isApiKey, authenticateApiKey } = require('../services/apiKeyService');
+
+/**
+ * Authenticate a per-agent API key for a route that declared `scope`.
+ * The key must carry the scope and belong to the agent the request targets.
+ */
+const verifyApiKeyRequest = async (req, res, next, key, scope) => {
+  if (!scope) {
+    console.warn(`⚠️  API key rejected on ${req.originalUrl}: endpoint requires a user session`);
+    return res.status(403).json({
+      error: 'API keys are not accepted here',
+      message: 'This endpoint requires a signed-in user'
+    });
+  }
+
+  const apiKey = await authenticateApiKey(key);
+
+  if (!apiKey) {
+    console.warn('⚠️  Invalid, revoked or expired API key');
+    return res.status(401).json({
+      error: 'Invalid or expired API key',
+      message: 'The API key does not exist, was revoked or has expired'
+    });
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return res.status(403).json({
+      error: 'Insufficient scope',
+      message: `This endpoint requires the "${scope}" scope`
+    });
+  }
+
+  const targetAgentId = req.params?.agentId || req.body?.agentId || req.body?.agent_id || req.query?.agentId;
+  if (targetAgentId !== apiKey.agent_id) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'This API key belongs to a different agent'
+    });
+  }
+
+  req.user = {
+    id: apiKey.user_id,
+    email: null,
+    role: 'api_key',
+  };
+  req.apiKey = {
+    id: apiKey.id,
+    agentId: apiKey.agent_id,
+    name: apiKey.name,
+    scopes: apiKey.scopes,
+  };
+
+  console.log(`✅ API key ${apiKey.key_prefix}… authenticated for agent ${apiKey.agent_id} (${scope})`);
+  return next();
+};
 
 /**
  * Authentication middleware
  * SECURITY: Reads Supabase tokens from HttpOnly cookies
  * Priority: Cookie > Authorization header for enhanced security
+ * Agent API keys ("Bearer pak_...") are rejected unless the route uses requireScope()
  */
 const authMiddleware = async (req, res, next) => {
   try {
@@ -31,6 +87,11 @@ const authMiddleware = async (req, res, next) => {
       });
     }
 
+    // API keys only work on routes that opt in with requireScope()
+    if (isApiKey(token)) {
+      return await verifyApiKeyRequest(req, res, next, token, req.requiredApiKeyScope);
+    }
+
     // Verify token with Supabase
     const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
 
@@ -67,4 +128,13 @@ const authMiddleware = async (req, res, next) => {
   }
 };
 
-module.exports = { authMiddleware };
+/**
+ * Like authMiddleware, but also accepts an agent API key carrying `scope`
+ * Usage: router.post('/:agentId/contacts', requireScope('contacts:write'), handler)
+ */
+const requireScope = (scope) => (req, res, next) => {
+  req.requiredApiKeyScope = scope;
+  return authMiddleware(req, res, next);
+};
+
+module.exports = { authMiddleware, requireScope, verifyApiKeyRequest };
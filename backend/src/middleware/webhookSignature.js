@@ -0,0 +1,102 @@
+const {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifySignature,
+  getAgentWebhookSecrets,
+} = require('../services/webhookSignatureService');
+const { isApiKey } = require('../services/apiKeyService');
+const { verifyApiKeyRequest } = require('./auth');
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Temporary escape hatch while existing n8n workflows are switched over to signed requests
+const ALLOW_UNSIGNED = process.env.WEBHOOK_ALLOW_UNSIGNED === 'true';
+
+/**
+ * Webhook signature middleware
+ * SECURITY: Public webhooks must be signed with the agent's webhook secret:
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * Requests without a body (GET) sign the request path including the query string instead.
+ * The agent is taken from the body (agentId / agent_id) or the agentId query parameter.
+ */
+const verifyWebhookSignature = async (req, res, next) => {
+  const agentId = req.body?.agentId || req.body?.agent_id || req.query?.agentId;
+
+  if (typeof agentId !== 'string' || !UUID_REGEX.test(agentId)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid or missing agentId',
+      details: 'agentId must be a valid UUID'
+    });
+  }
+
+  try {
+    const { found, secrets } = await getAgentWebhookSecrets(agentId);
+
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: 'Agent not found'
+      });
+    }
+
+    const timestamp = req.get(TIMESTAMP_HEADER);
+    const signature = req.get(SIGNATURE_HEADER);
+
+    if (secrets.length === 0 || (ALLOW_UNSIGNED && !signature)) {
+      if (ALLOW_UNSIGNED) {
+        console.warn(`⚠️ SECURITY: Unsigned webhook accepted for agent ${agentId} on ${req.originalUrl} (WEBHOOK_ALLOW_UNSIGNED)`);
+        return next();
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Webhook signing not configured',
+        details: 'Generate a webhook secret for this agent in its settings and sign requests with it'
+      });
+    }
+
+    const body = req.rawBody && req.rawBody.length > 0 ? req.rawBody.toString('utf8') : req.originalUrl;
+    const signatureError = verifySignature({ secrets, timestamp, signature, body });
+
+    if (signatureError) {
+      console.warn(`⚠️ SECURITY: Rejected webhook for agent ${agentId} on ${req.originalUrl}: ${signatureError}`);
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid webhook signature',
+        details: signatureError
+      });
+    }
+
+    return next();
+  } catch (error) {
+    console.error('❌ Webhook signature middleware error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify webhook signature'
+    });
+  }
+};
+
+/**
+ * Accept either a signed request or an agent API key ("Authorization: Bearer pak_...") carrying `scope`
+ */
+const verifyWebhookSignatureOrApiKey = (scope) => async (req, res, next) => {
+  const bearer = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+
+  if (!isApiKey(bearer)) {
+    return verifyWebhookSignature(req, res, next);
+  }
+
+  try {
+    return await verifyApiKeyRequest(req, res, next, bearer, scope);
+  } catch (error) {
+    console.error('❌ Webhook API key verification error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify API key'
+    });
+  }
+};
+
+module.exports = { verifyWebhookSignature, verifyWebhookSignatureOrApiKey };
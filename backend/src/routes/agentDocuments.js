@@ -1,6 +1,6 @@
 const express = require('express');
 const rateLimit = require('express-rate-limit');
-const { authMiddleware } = require('../middleware/auth');
+const { requireScope } = require('../middleware/auth');
 const { supabaseAdmin } = require('../config/supabase');
 const { queryAgentDocuments } = require('../services/vectorStoreService');
 
@@ -19,7 +19,7 @@ const queryLimiter = rateLimit({
   },
 });
 
-router.post('/query', authMiddleware, queryLimiter, async (req, res) => {
+router.post('/query', requireScope('kb:query'), queryLimiter, async (req, res) => {
   const requestId = req.headers['x-request-id'] || `query-${Date.now()}`;
   const logPrefix = `[AGENT-DOCS][${requestId}]`;
 
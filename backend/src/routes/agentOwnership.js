@@ -0,0 +1,20 @@
+const { supabaseAdmin } = require('../config/supabase');
+
+/**
+ * The agent when it belongs to the user, otherwise null (routes answer 404 either way,
+ * so other users' agent ids are not revealed)
+ */
+async function findOwnedAgent(agentId, userId) {
+  const { data: agent } = await supabaseAdmin
+    .from('agents')
+    .select('id')
+    .eq('id', agentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return agent;
+}
+
+module.exports = {
+  findOwnedAgent,
+};
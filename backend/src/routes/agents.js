@@ -8,6 +8,43 @@ const { createAgentSchema, updateAgentSchema, sendMessageSchema } = require('../
 const { processAgentDocuments } = require('../services/documentProcessor');
 
 const router = express.Router();
+
+// Maps optional per-agent messaging settings from the request body to agents columns.
+// These columns are written through the Supabase SDK (see database.js deprecation note).
+function buildAgentSettingsUpdate(body = {}) {
+  const update = {};
+
+  if (body.groupChatSettings !== undefined) {
+    update.group_chat_settings = body.groupChatSettings;
+  }
+
+  if (body.historySyncSettings !== undefined) {
+    update.history_sync_settings = body.historySyncSettings;
+  }
+
+  if (body.transcriptionSettings !== undefined) {
+    update.transcription_settings = body.transcriptionSettings;
+  }
+
+  if (body.outboundQueueSettings !== undefined) {
+    update.outbound_queue_settings = body.outboundQueueSettings;
+  }
+
+  if (body.humanizeSettings !== undefined) {
+    update.humanize_settings = body.humanizeSettings;
+  }
+
+  if (body.consentSettings !== undefined) {
+    update.consent_settings = body.consentSettings;
+  }
+
+  if (body.inboundWebhookSettings !== undefined) {
+    update.inbound_webhook_settings = body.inboundWebhookSettings;
+  }
+
+  return update;
+}
+
 const {
   safeInitializeWhatsApp,
   getSessionStatus,
@@ -185,7 +222,17 @@ router.get('/:id/details', authMiddleware, validateUUID('id'), async (req, res)
       console.error(`[AGENT-DETAILS] Error fetching last message:`, lastMessageError);
     }
 
-    // Query 5: Get unprocessed messages count
+    // Query 5: Both sides of the conversation (outgoing includes API-originated sends)
+    const [{ count: incomingMessages }, { count: outgoingMessages }] = await Promise.all(
+      ['incoming', 'outgoing'].map((direction) => supabase
+        .from('message_log')
+        .select('*', { count: 'exact', head: true })
+        .eq('agent_id', id)
+        .eq('user_id', userId)
+        .eq('direction', direction))
+    );
+
+    // Query 6: Get unprocessed messages count
     // CRITICAL: Filter by both agent_id AND user_id for security
     const { count: unprocessedMessages, error: unprocessedError } = await supabase
       .from('message_log')
@@ -222,7 +269,9 @@ router.get('/:id/details', authMiddleware, validateUUID('id'), async (req, res)
       total_messages: totalMessages || 0,
       last_message_at: lastMessageData?.received_at || null,
       last_message_text: lastMessageData?.message_text || null,
-      unprocessed_messages: unprocessedMessages || 0
+      unprocessed_messages: unprocessedMessages || 0,
+      incoming_messages: incomingMessages || 0,
+      outgoing_messages: outgoingMessages || 0
     };
 
     // Build complete response
@@ -289,8 +338,27 @@ router.put('/:id', authMiddleware, validateUUID('id'), validate(updateAgentSchem
       return res.status(404).json({ error: 'Agent not found' });
     }
 
+    let updatedAgent = result.rows[0];
+    const settingsUpdate = buildAgentSettingsUpdate(req.body);
+
+    if (Object.keys(settingsUpdate).length > 0) {
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('agents')
+        .update(settingsUpdate)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (settingsError) {
+        throw settingsError;
+      }
+
+      updatedAgent = settingsData;
+    }
+
     console.log(`✅ Agent updated: ${id}`);
-    res.json(result.rows[0]);
+    res.json(updatedAgent);
   } catch (error) {
     console.error('Update agent error:', error.message);
     res.status(500).json({ error: error.message });
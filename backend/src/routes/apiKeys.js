@@ -0,0 +1,114 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} = require('../services/apiKeyService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const MAX_ACTIVE_KEYS = 20;
+
+const createApiKeySchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Key name is required')
+    .max(100, 'Key name must be less than 100 characters'),
+  scopes: z.array(z.enum(API_KEY_SCOPES))
+    .min(1, 'Select at least one scope'),
+  expiresInDays: z.number()
+    .int()
+    .min(1, 'Keys must be valid for at least 1 day')
+    .max(3650, 'Keys cannot be valid for more than 10 years')
+    .optional(),
+});
+
+// Key management is only available to signed-in users (authMiddleware rejects API keys)
+
+router.get('/:agentId/api-keys', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const apiKeys = await listApiKeys(agentId);
+    return res.json({ apiKeys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List API keys error');
+    return res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+// Create a key; the plaintext key is only included in this response
+router.post('/:agentId/api-keys', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = createApiKeySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const existing = await listApiKeys(agentId);
+    if (existing.filter((key) => !key.revoked_at).length >= MAX_ACTIVE_KEYS) {
+      return res.status(409).json({
+        error: 'Too many API keys',
+        details: `An agent can have at most ${MAX_ACTIVE_KEYS} active keys; revoke unused keys first`,
+      });
+    }
+
+    const { name, scopes, expiresInDays } = validation.data;
+    const result = await createApiKey(agentId, req.user.id, {
+      name,
+      scopes,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    return res.status(201).json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Create API key error');
+    return res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+router.delete('/:agentId/api-keys/:keyId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, keyId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const apiKey = await revokeApiKey(agentId, keyId);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found or already revoked' });
+    }
+
+    logger.info({ agentId, keyId, userId: req.user.id }, '🔒 API key revoked');
+    return res.json({ apiKey });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Revoke API key error');
+    return res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+module.exports = router;
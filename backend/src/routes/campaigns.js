@@ -0,0 +1,165 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const {
+  RECIPIENT_STATUSES,
+  createCampaign,
+  listCampaigns,
+  getCampaignReport,
+  updateCampaignStatus,
+} = require('../services/campaignService');
+const { validateMediaPayload } = require('../services/outboundMediaService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const MAX_MESSAGE_LENGTH = 4096; // WhatsApp message limit
+
+const createCampaignSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Campaign name is required')
+    .max(100, 'Campaign name must be less than 100 characters'),
+  template: z.string()
+    .trim()
+    .min(1, 'Message template is required')
+    .max(MAX_MESSAGE_LENGTH, `Message must be less than ${MAX_MESSAGE_LENGTH} characters`),
+  media: z.record(z.string(), z.any()).optional(),
+  filter: z.object({
+    contactIds: z.array(z.uuid()).max(5000).optional(),
+    company: z.string().trim().max(255).optional(),
+    search: z.string().trim().max(100).optional(),
+  }).optional(),
+  messagesPerMinute: z.number()
+    .min(1, 'Must allow at least 1 message per minute')
+    .max(60, 'Cannot exceed 60 messages per minute')
+    .optional(),
+  startPaused: z.boolean().optional().default(false),
+});
+
+const reportQuerySchema = z.object({
+  status: z.enum(RECIPIENT_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// Create a campaign for all (or filtered) contacts of an agent
+router.post('/:agentId/campaigns', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = createCampaignSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const { media } = validation.data;
+    if (media) {
+      const mediaError = validateMediaPayload(media);
+      if (mediaError) {
+        return res.status(400).json({ error: 'Invalid media payload', details: mediaError });
+      }
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const campaign = await createCampaign(agentId, { ...validation.data, createdBy: req.user.id });
+
+    if (campaign.total_recipients === 0) {
+      logger.warn({ agentId, campaignId: campaign.id }, '⚠️ Campaign created without recipients');
+    }
+
+    return res.status(201).json({ campaign });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Create campaign error');
+    return res.status(500).json({ error: 'Failed to create campaign' });
+  }
+});
+
+// List campaigns with per-status recipient counts
+router.get('/:agentId/campaigns', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const campaigns = await listCampaigns(agentId);
+    return res.json({ campaigns });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List campaigns error');
+    return res.status(500).json({ error: 'Failed to fetch campaigns' });
+  }
+});
+
+// Campaign report with per-recipient status
+router.get('/:agentId/campaigns/:campaignId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, campaignId } = req.params;
+
+    const validation = reportQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const report = await getCampaignReport(agentId, campaignId, validation.data);
+    if (!report) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    return res.json(report);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Campaign report error');
+    return res.status(500).json({ error: 'Failed to fetch campaign report' });
+  }
+});
+
+// Pause, resume or cancel a campaign
+const handleStatusAction = (action) => async (req, res) => {
+  try {
+    const { agentId, campaignId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const campaign = await updateCampaignStatus(agentId, campaignId, action);
+    if (!campaign) {
+      return res.status(409).json({
+        error: `Campaign cannot be ${action === 'cancel' ? 'cancelled' : `${action}d`}`,
+        details: 'The campaign was not found or is not in a state that allows this action',
+      });
+    }
+
+    return res.json({ campaign });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId, action }, '❌ Update campaign status error');
+    return res.status(500).json({ error: 'Failed to update campaign' });
+  }
+};
+
+router.post('/:agentId/campaigns/:campaignId/pause', authMiddleware, handleStatusAction('pause'));
+router.post('/:agentId/campaigns/:campaignId/resume', authMiddleware, handleStatusAction('resume'));
+router.post('/:agentId/campaigns/:campaignId/cancel', authMiddleware, handleStatusAction('cancel'));
+
+module.exports = router;
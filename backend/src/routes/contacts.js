@@ -3,7 +3,7 @@ const multer = require('multer');
 const pino = require('pino');
 const { z } = require('zod');
 
-const { authMiddleware } = require('../middleware/auth');
+const { authMiddleware, requireScope } = require('../middleware/auth');
 const contactsService = require('../services/contactsService');
 const { supabaseAdmin } = require('../config/supabase');
 
@@ -32,7 +32,7 @@ const upload = multer({
   },
 });
 
-router.post('/:agentId/contacts/upload', authMiddleware, upload.single('file'), async (req, res) => {
+router.post('/:agentId/contacts/upload', requireScope('contacts:write'), upload.single('file'), async (req, res) => {
   try {
     const { agentId } = req.params;
     const userId = req.user.id;
@@ -102,7 +102,7 @@ router.post('/:agentId/contacts/upload', authMiddleware, upload.single('file'),
   }
 });
 
-router.post('/:agentId/contacts', authMiddleware, async (req, res) => {
+router.post('/:agentId/contacts', requireScope('contacts:write'), async (req, res) => {
   try {
     const { agentId } = req.params;
     const userId = req.user.id;
@@ -172,7 +172,7 @@ router.post('/:agentId/contacts', authMiddleware, async (req, res) => {
   }
 });
 
-router.get('/:agentId/contacts', authMiddleware, async (req, res) => {
+router.get('/:agentId/contacts', requireScope('contacts:read'), async (req, res) => {
   try {
     const { agentId } = req.params;
     const userId = req.user.id;
@@ -205,7 +205,7 @@ router.get('/:agentId/contacts', authMiddleware, async (req, res) => {
   }
 });
 
-router.delete('/:agentId/contacts/:contactId', authMiddleware, async (req, res) => {
+router.delete('/:agentId/contacts/:contactId', requireScope('contacts:write'), async (req, res) => {
   try {
     const { agentId, contactId } = req.params;
     const userId = req.user.id;
@@ -277,7 +277,7 @@ router.delete('/:agentId/contacts', authMiddleware, async (req, res) => {
   }
 });
 
-router.put('/:agentId/contacts/:contactId', authMiddleware, async (req, res) => {
+router.put('/:agentId/contacts/:contactId', requireScope('contacts:write'), async (req, res) => {
   const { agentId, contactId } = req.params;
   const userId = req.user.id;
   logger.info(
@@ -433,7 +433,7 @@ router.put('/:agentId/contacts/:contactId', authMiddleware, async (req, res) =>
   }
 });
 
-router.get('/:agentId/contacts/count', authMiddleware, async (req, res) => {
+router.get('/:agentId/contacts/count', requireScope('contacts:read'), async (req, res) => {
   try {
     const { agentId } = req.params;
     const userId = req.user.id;
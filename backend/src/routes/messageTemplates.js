@@ -0,0 +1,230 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const {
+  TemplateError,
+  renderTemplateBody,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} = require('../services/messageTemplateService');
+const { validateMediaPayload } = require('../services/outboundMediaService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const MAX_MESSAGE_LENGTH = 4096; // WhatsApp message limit
+const MAX_VARIABLES = 30;
+
+const templateSchema = z.object({
+  name: z.string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/i, 'Name may only contain letters, digits, "_" and "-" (max 64)'),
+  language: z.string()
+    .trim()
+    .regex(/^(default|[a-z]{2,3}(-[a-z0-9]{2,8})?)$/i, 'Language must be "default" or a code such as "en" or "en-US"')
+    .transform((language) => language.toLowerCase())
+    .optional()
+    .default('default'),
+  description: z.string().trim().max(255).nullable().optional(),
+  body: z.string()
+    .max(MAX_MESSAGE_LENGTH, `Message must be less than ${MAX_MESSAGE_LENGTH} characters`)
+    .optional()
+    .default(''),
+  variables: z.array(z.object({
+    name: z.string().regex(/^\w{1,64}$/, 'Variable names may only contain letters, digits and "_"'),
+    defaultValue: z.string().max(1024).optional(),
+  }))
+    .max(MAX_VARIABLES, `At most ${MAX_VARIABLES} variables are allowed`)
+    .optional()
+    .default([])
+    .refine(
+      (variables) => new Set(variables.map((variable) => variable.name)).size === variables.length,
+      'Variable names must be unique'
+    ),
+  media: z.record(z.string(), z.any()).nullable().optional(),
+}).refine((template) => template.body.trim().length > 0 || template.media, {
+  message: 'A template needs a message body, a media attachment or both',
+  path: ['body'],
+});
+
+const previewSchema = z.object({
+  variables: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional().default({}),
+});
+
+// Templates store a media reference, not the file itself, and the body is used as the caption
+function validateTemplateMedia(template) {
+  if (!template.media) {
+    return null;
+  }
+  if (template.media.base64) {
+    return 'Template media must reference an HTTPS url; base64 attachments are not stored';
+  }
+  if (template.media.caption) {
+    return 'Template media cannot have its own caption; the template body is used instead';
+  }
+  if (template.media.type === 'audio' && template.body.trim()) {
+    return 'Audio templates cannot have a message body';
+  }
+
+  return validateMediaPayload(template.media);
+}
+
+function sendValidationError(res, validation) {
+  return res.status(400).json({
+    error: 'Validation failed',
+    details: validation.error.issues,
+  });
+}
+
+// List all templates (every language variant) of an agent
+router.get('/:agentId/templates', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const templates = await listTemplates(agentId);
+    return res.json({ templates });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List templates error');
+    return res.status(500).json({ error: 'Failed to fetch templates' });
+  }
+});
+
+// Create a template (or a new language variant of an existing name)
+router.post('/:agentId/templates', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = templateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendValidationError(res, validation);
+    }
+
+    const mediaError = validateTemplateMedia(validation.data);
+    if (mediaError) {
+      return res.status(400).json({ error: 'Invalid media payload', details: mediaError });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const template = await createTemplate(agentId, validation.data);
+    return res.status(201).json({ template });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return res.status(409).json({ error: error.message, details: error.details });
+    }
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Create template error');
+    return res.status(500).json({ error: 'Failed to create template' });
+  }
+});
+
+// Update a template; omitted fields keep their current values
+router.put('/:agentId/templates/:templateId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, templateId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const existing = await getTemplate(agentId, templateId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const validation = templateSchema.safeParse({
+      name: existing.name,
+      language: existing.language,
+      description: existing.description,
+      body: existing.body,
+      variables: existing.variables,
+      media: existing.media,
+      ...req.body,
+    });
+    if (!validation.success) {
+      return sendValidationError(res, validation);
+    }
+
+    const mediaError = validateTemplateMedia(validation.data);
+    if (mediaError) {
+      return res.status(400).json({ error: 'Invalid media payload', details: mediaError });
+    }
+
+    const template = await updateTemplate(agentId, templateId, validation.data);
+    return res.json({ template });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return res.status(409).json({ error: error.message, details: error.details });
+    }
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Update template error');
+    return res.status(500).json({ error: 'Failed to update template' });
+  }
+});
+
+router.delete('/:agentId/templates/:templateId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, templateId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const deleted = await deleteTemplate(agentId, templateId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    return res.json({ success: true, id: deleted.id });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Delete template error');
+    return res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
+// Render a template with sample variables, exactly as the send-message webhook would
+router.post('/:agentId/templates/:templateId/preview', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, templateId } = req.params;
+
+    const validation = previewSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return sendValidationError(res, validation);
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const template = await getTemplate(agentId, templateId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const text = renderTemplateBody(template, validation.data.variables);
+    return res.json({ text, media: template.media || null });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return res.status(400).json({ error: error.message, details: error.details });
+    }
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Preview template error');
+    return res.status(500).json({ error: 'Failed to preview template' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,66 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const messageStatusService = require('../services/messageStatusService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'sent', 'delivered', 'read', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// List outbound messages with their delivery status
+router.get('/:agentId/messages/outbound', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const result = await messageStatusService.listMessages(agentId, validation.data);
+    return res.json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List outbound messages error');
+    return res.status(500).json({ error: 'Failed to fetch outbound messages' });
+  }
+});
+
+// Single outbound message by tracking id or WhatsApp message id
+router.get('/:agentId/messages/outbound/:messageId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, messageId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const message = await messageStatusService.getMessage(agentId, messageId);
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    return res.json({ message });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Get outbound message error');
+    return res.status(500).json({ error: 'Failed to fetch outbound message' });
+  }
+});
+
+module.exports = router;
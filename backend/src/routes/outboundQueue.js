@@ -0,0 +1,91 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const { listQueueItems, getQueueItem, cancelQueueItem } = require('../services/outboundQueueService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(['queued', 'sending', 'sent', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// List queued/sent messages for an agent
+router.get('/:agentId/queue', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const result = await listQueueItems(agentId, validation.data);
+    return res.json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List queue error');
+    return res.status(500).json({ error: 'Failed to fetch queued messages' });
+  }
+});
+
+// Single queued message
+router.get('/:agentId/queue/:queueId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, queueId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const item = await getQueueItem(agentId, queueId);
+    if (!item) {
+      return res.status(404).json({ error: 'Queued message not found' });
+    }
+
+    return res.json({ item });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Get queued message error');
+    return res.status(500).json({ error: 'Failed to fetch queued message' });
+  }
+});
+
+// Cancel a message that has not been sent yet
+router.delete('/:agentId/queue/:queueId', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, queueId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const cancelled = await cancelQueueItem(agentId, queueId);
+    if (!cancelled) {
+      return res.status(409).json({
+        error: 'Message cannot be cancelled',
+        details: 'Only messages that are still queued can be cancelled',
+      });
+    }
+
+    return res.json({ item: cancelled });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Cancel queued message error');
+    return res.status(500).json({ error: 'Failed to cancel queued message' });
+  }
+});
+
+module.exports = router;
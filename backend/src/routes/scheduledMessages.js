@@ -0,0 +1,183 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware, requireScope } = require('../middleware/auth');
+const {
+  resolveScheduledTime,
+  scheduleMessage,
+  listScheduledMessages,
+  cancelScheduledMessage,
+} = require('../services/scheduledMessageService');
+const { isValidTimezone } = require('../services/timezoneService');
+const { validateMediaPayload } = require('../services/outboundMediaService');
+const { isNumberSuppressed } = require('../services/consentService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const GROUP_JID_REGEX = /^\d+(-\d+)?@g\.us$/;
+const MAX_MESSAGE_LENGTH = 4096; // WhatsApp message limit
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+const createScheduledMessageSchema = z.object({
+  to: z.string().trim().min(1, 'Recipient is required'),
+  message: z.string()
+    .trim()
+    .max(MAX_MESSAGE_LENGTH, `Message must be less than ${MAX_MESSAGE_LENGTH} characters`)
+    .optional(),
+  media: z.record(z.string(), z.any()).optional(),
+  sendAt: z.iso.datetime({ offset: true }).optional(),
+  localTime: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/, 'localTime must look like 2025-12-02T09:00')
+    .optional(),
+  timezone: z.string()
+    .refine(isValidTimezone, 'Timezone must be an IANA name (e.g. "Asia/Karachi")')
+    .optional(),
+})
+  .refine((body) => Boolean(body.sendAt) !== Boolean(body.localTime), 'Provide exactly one of sendAt or localTime')
+  .refine((body) => Boolean(body.message) || Boolean(body.media), 'Provide a message or media');
+
+const listQuerySchema = z.object({
+  status: z.enum(['scheduled', 'sending', 'queued', 'sent', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+function normalizeRecipient(to) {
+  if (GROUP_JID_REGEX.test(to)) {
+    return to;
+  }
+
+  const digits = to.replace(/\D/g, '');
+  return digits.length >= 10 ? digits : null;
+}
+
+// Schedule a message ("send this to +92… tomorrow at 9am")
+router.post('/:agentId/scheduled-messages', requireScope('messages:send'), async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = createScheduledMessageSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const { to, message, media, sendAt, localTime, timezone } = validation.data;
+
+    const recipient = normalizeRecipient(to);
+    if (!recipient) {
+      return res.status(400).json({
+        error: 'Invalid recipient',
+        details: 'Phone number must contain at least 10 digits, or be a group JID ending in @g.us',
+      });
+    }
+
+    if (media) {
+      const mediaError = validateMediaPayload(media);
+      if (mediaError) {
+        return res.status(400).json({ error: 'Invalid media payload', details: mediaError });
+      }
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    // Checked again at send time, in case the number opts out in the meantime
+    if (!GROUP_JID_REGEX.test(recipient) && await isNumberSuppressed(agentId, recipient)) {
+      return res.status(403).json({
+        error: 'Recipient has opted out',
+        details: `${recipient} is on this agent's suppression list`,
+      });
+    }
+
+    const payload = media
+      ? { media: { ...media, caption: media.caption || (message && media.type !== 'audio' ? message : undefined) } }
+      : { text: message };
+
+    const schedule = await resolveScheduledTime(agentId, { sendAt, localTime, timezone });
+    const dueIn = schedule.scheduledAt ? schedule.scheduledAt.getTime() - Date.now() : NaN;
+    if (!(dueIn > 0) || dueIn > MAX_SCHEDULE_AHEAD_MS) {
+      return res.status(400).json({
+        error: 'Invalid schedule time',
+        details: dueIn > MAX_SCHEDULE_AHEAD_MS
+          ? 'Messages can be scheduled at most one year ahead'
+          : 'The scheduled time must be in the future',
+      });
+    }
+
+    const scheduled = await scheduleMessage(agentId, {
+      to: recipient,
+      payload,
+      scheduledAt: schedule.scheduledAt,
+      timezone: schedule.timezone,
+      localTime,
+      createdBy: req.user.id,
+    });
+
+    logger.info({ agentId, scheduledMessageId: scheduled.id, scheduledAt: scheduled.scheduled_at }, '🗓️ Message scheduled');
+    return res.status(201).json({ message: scheduled });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Schedule message error');
+    return res.status(500).json({ error: 'Failed to schedule message' });
+  }
+});
+
+// List scheduled messages, soonest first
+router.get('/:agentId/scheduled-messages', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const result = await listScheduledMessages(agentId, validation.data);
+    return res.json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List scheduled messages error');
+    return res.status(500).json({ error: 'Failed to fetch scheduled messages' });
+  }
+});
+
+// Cancel a message that has not been sent yet
+router.delete('/:agentId/scheduled-messages/:id', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, id } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const cancelled = await cancelScheduledMessage(agentId, id);
+    if (!cancelled) {
+      return res.status(409).json({
+        error: 'Message cannot be cancelled',
+        details: 'Only messages that are still scheduled can be cancelled; once due, cancel the queue_id through the outbound queue',
+      });
+    }
+
+    return res.json({ message: cancelled });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Cancel scheduled message error');
+    return res.status(500).json({ error: 'Failed to cancel scheduled message' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,106 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { requireScope } = require('../middleware/auth');
+const {
+  suppressNumber,
+  unsuppressNumber,
+  listSuppressions,
+} = require('../services/consentService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const createSuppressionSchema = z.object({
+  phoneNumber: z.string()
+    .trim()
+    .refine((value) => value.replace(/\D/g, '').length >= 10, 'Phone number must contain at least 10 digits'),
+});
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// List numbers that opted out (by keyword or added manually), newest first
+router.get('/:agentId/suppressions', requireScope('contacts:read'), async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const result = await listSuppressions(agentId, validation.data);
+    return res.json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List suppressions error');
+    return res.status(500).json({ error: 'Failed to fetch suppression list' });
+  }
+});
+
+// Suppress a number manually (e.g. the customer asked by phone or email)
+router.post('/:agentId/suppressions', requireScope('contacts:write'), async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = createSuppressionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const suppression = await suppressNumber(agentId, validation.data.phoneNumber, {
+      reason: 'manual',
+      createdBy: req.user.id,
+    });
+
+    return res.status(201).json({ suppression });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Create suppression error');
+    return res.status(500).json({ error: 'Failed to suppress number' });
+  }
+});
+
+// Remove a number from the list so it can be messaged again
+router.delete('/:agentId/suppressions/:phoneNumber', requireScope('contacts:write'), async (req, res) => {
+  try {
+    const { agentId, phoneNumber } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const removed = await unsuppressNumber(agentId, phoneNumber);
+    if (!removed) {
+      return res.status(404).json({ error: 'Number is not suppressed' });
+    }
+
+    logger.info({ agentId, phoneNumber }, '✅ Number removed from suppression list');
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Delete suppression error');
+    return res.status(500).json({ error: 'Failed to remove number from suppression list' });
+  }
+});
+
+module.exports = router;
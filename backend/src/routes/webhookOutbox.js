@@ -0,0 +1,88 @@
+const express = require('express');
+const pino = require('pino');
+const { z } = require('zod');
+
+const { authMiddleware } = require('../middleware/auth');
+const { listOutboxItems, replayDeadLetters } = require('../services/webhookOutboxService');
+const { findOwnedAgent } = require('./agentOwnership');
+
+const logger = pino();
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'delivering', 'delivered', 'dead']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// List inbound webhook deliveries, newest first (?status=dead for the dead-letter queue)
+router.get('/:agentId/webhook-deliveries', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const result = await listOutboxItems(agentId, validation.data);
+    return res.json(result);
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ List webhook deliveries error');
+    return res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// Replay every dead-lettered delivery of the agent
+router.post('/:agentId/webhook-deliveries/replay', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const replayed = await replayDeadLetters(agentId);
+    return res.json({ replayed: replayed.length, deliveries: replayed });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Replay webhook deliveries error');
+    return res.status(500).json({ error: 'Failed to replay webhook deliveries' });
+  }
+});
+
+// Replay a single dead-lettered delivery
+router.post('/:agentId/webhook-deliveries/:deliveryId/replay', authMiddleware, async (req, res) => {
+  try {
+    const { agentId, deliveryId } = req.params;
+
+    if (!z.string().uuid().safeParse(deliveryId).success) {
+      return res.status(400).json({ error: 'Invalid delivery ID' });
+    }
+
+    const agent = await findOwnedAgent(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const [delivery] = await replayDeadLetters(agentId, deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Dead-lettered delivery not found' });
+    }
+
+    return res.json({ delivery });
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Replay webhook delivery error');
+    return res.status(500).json({ error: 'Failed to replay webhook delivery' });
+  }
+});
+
+module.exports = router;
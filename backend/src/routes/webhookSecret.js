@@ -0,0 +1,67 @@
+const express = require('express');
+const pino = require('pino');
+
+const { authMiddleware } = require('../middleware/auth');
+const { PREVIOUS_SECRET_GRACE_MS, rotateWebhookSecret } = require('../services/webhookSignatureService');
+const { supabaseAdmin } = require('../config/supabase');
+
+const logger = pino();
+const router = express.Router();
+
+function toSecretResponse(agent) {
+  const rotatedAt = agent.webhook_secret_rotated_at || null;
+  return {
+    secret: agent.webhook_secret || null,
+    rotatedAt,
+    previousSecretValidUntil: rotatedAt
+      ? new Date(new Date(rotatedAt).getTime() + PREVIOUS_SECRET_GRACE_MS).toISOString()
+      : null,
+  };
+}
+
+// Current webhook signing secret of an agent (owner only)
+router.get('/:agentId/webhook-secret', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const { data: agent, error } = await supabaseAdmin
+      .from('agents')
+      .select('id, webhook_secret, webhook_secret_rotated_at')
+      .eq('id', agentId)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    return res.json(toSecretResponse(agent));
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Get webhook secret error');
+    return res.status(500).json({ error: 'Failed to fetch webhook secret' });
+  }
+});
+
+// Generate a new secret; the previous one keeps working during the grace period
+router.post('/:agentId/webhook-secret/rotate', authMiddleware, async (req, res) => {
+  try {
+    const { agentId } = req.params;
+
+    const agent = await rotateWebhookSecret(agentId, req.user.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    logger.info({ agentId, userId: req.user.id }, '🔑 Webhook secret rotated');
+    return res.json(toSecretResponse(agent));
+  } catch (error) {
+    logger.error({ error: error.message, agentId: req.params.agentId }, '❌ Rotate webhook secret error');
+    return res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+module.exports = router;
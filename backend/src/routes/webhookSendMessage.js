@@ -1,12 +1,29 @@
 const express = require('express');
 const rateLimit = require('express-rate-limit');
 const { supabaseAdmin } = require('../config/supabase');
-const { sendMessage, getWhatsAppStatus } = require('../services/baileysService');
+const { sendMessage, getWhatsAppStatus, MessageReferenceError } = require('../services/baileysService');
+const { validateMediaPayload, MediaPayloadError } = require('../services/outboundMediaService');
+const { enqueueMessages, getQueueItem } = require('../services/outboundQueueService');
+const { buildTemplateMessage, TemplateError } = require('../services/messageTemplateService');
+const { isNumberSuppressed, SuppressedRecipientError } = require('../services/consentService');
+const { MIN_PART_LENGTH, MAX_PART_LENGTH, MAX_SPLIT_PARTS, splitMessageText } = require('../services/messageSplitService');
+const {
+  isValidIdempotencyKey,
+  hashRequestBody,
+  reserveIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} = require('../services/idempotencyService');
 
 const router = express.Router();
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const GROUP_JID_REGEX = /^\d+(-\d+)?@g\.us$/;
 const MAX_MESSAGE_LENGTH = 4096; // WhatsApp message limit
+const MAX_MENTIONS = 50;
+const MESSAGE_ID_MAX_LENGTH = 128;
+const TEMPLATE_NAME_REGEX = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const SPLIT_PART_DELAY_MS = Number(process.env.SPLIT_PART_DELAY_MS) || 1500;
 
 const webhookLimiter = rateLimit({
   windowMs: 60 * 1000,
@@ -33,6 +50,136 @@ function sanitizePhoneNumber(phone) {
   return digits.length > 0 ? digits : null;
 }
 
+function isValidMessageId(value) {
+  return typeof value === 'string' && value.length > 0 && value.length <= MESSAGE_ID_MAX_LENGTH;
+}
+
+/**
+ * Validate reply/reaction/mention fields.
+ * Returns an error message string, or null when they are well-formed.
+ */
+function validateMessageExtras({ quotedMessageId, reaction, mentions, message, media, template }) {
+  if (quotedMessageId !== undefined && quotedMessageId !== null && !isValidMessageId(quotedMessageId)) {
+    return 'quotedMessageId must be a message id string';
+  }
+
+  if (reaction !== undefined && reaction !== null) {
+    if (typeof reaction !== 'object' || !isValidMessageId(reaction.messageId)) {
+      return 'reaction must be an object with a messageId';
+    }
+    if (typeof reaction.emoji !== 'string' || [...reaction.emoji].length > 8) {
+      return 'reaction.emoji must be an emoji (or an empty string to remove the reaction)';
+    }
+    if (message || media || template || quotedMessageId || mentions) {
+      return 'reaction cannot be combined with message, media, template, quotedMessageId or mentions';
+    }
+  }
+
+  if (mentions !== undefined && mentions !== null) {
+    if (!Array.isArray(mentions) || mentions.length > MAX_MENTIONS) {
+      return `mentions must be an array of at most ${MAX_MENTIONS} phone numbers or JIDs`;
+    }
+    const invalid = mentions.find((mention) => (
+      typeof mention !== 'string' ||
+      (!mention.includes('@') && mention.replace(/\D/g, '').length < 10)
+    ));
+    if (invalid !== undefined) {
+      return `Invalid mention: ${invalid}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the split option (true, or { maxLength?, numbered? }).
+ * Returns an error message string, or null when it is well-formed.
+ */
+function validateSplitOption(split, { media, template, reaction }) {
+  if (split === true || split === false) {
+    return media || template || reaction ? 'split can only be used with a text message' : null;
+  }
+  if (typeof split !== 'object' || Array.isArray(split)) {
+    return 'split must be true or an object with maxLength and/or numbered';
+  }
+  if (split.maxLength !== undefined && (!Number.isInteger(split.maxLength) ||
+    split.maxLength < MIN_PART_LENGTH || split.maxLength > MAX_PART_LENGTH)) {
+    return `split.maxLength must be an integer between ${MIN_PART_LENGTH} and ${MAX_PART_LENGTH}`;
+  }
+  if (split.numbered !== undefined && typeof split.numbered !== 'boolean') {
+    return 'split.numbered must be a boolean';
+  }
+  if (media || template || reaction) {
+    return 'split can only be used with a text message';
+  }
+
+  return null;
+}
+
+// Mentions only apply to the parts whose text contains "@<number>"
+function mentionsInText(mentions, text) {
+  if (!Array.isArray(mentions)) {
+    return [];
+  }
+  return mentions.filter((mention) => text.includes(`@${mention.split('@')[0].replace(/\D/g, '')}`));
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Validate a template reference ({ name, language?, variables? }).
+ * Returns an error message string, or null when it is well-formed.
+ */
+function validateTemplateReference(template, { message, media }) {
+  if (typeof template !== 'object' || Array.isArray(template)) {
+    return 'template must be an object with a name';
+  }
+  if (typeof template.name !== 'string' || !TEMPLATE_NAME_REGEX.test(template.name)) {
+    return 'template.name must be a template name (letters, digits, "_" or "-")';
+  }
+  if (template.language !== undefined && template.language !== null &&
+    (typeof template.language !== 'string' || template.language.length > 16)) {
+    return 'template.language must be a language code such as "en" or "en-US"';
+  }
+  if (template.variables !== undefined && template.variables !== null) {
+    if (typeof template.variables !== 'object' || Array.isArray(template.variables)) {
+      return 'template.variables must be an object of name/value pairs';
+    }
+    const invalid = Object.entries(template.variables)
+      .find(([, value]) => !['string', 'number', 'boolean'].includes(typeof value));
+    if (invalid) {
+      return `template.variables.${invalid[0]} must be a string, number or boolean`;
+    }
+  }
+  if (message || media) {
+    return 'template cannot be combined with message or media';
+  }
+
+  return null;
+}
+
+/**
+ * Record the response sent for an idempotency key. 5xx responses release the key
+ * instead, so the caller's retry is processed normally.
+ */
+function rememberResponse(res, record, logPrefix) {
+  const sendJson = res.json.bind(res);
+
+  res.json = (body) => {
+    const status = res.statusCode;
+    const settle = status >= 500
+      ? releaseIdempotencyKey(record.id)
+      : completeIdempotencyKey(record.id, status, body);
+
+    settle
+      .catch((error) => console.error(`${logPrefix} ❌ Failed to record idempotency key:`, error.message))
+      .finally(() => sendJson(body));
+    return res;
+  };
+}
+
 /**
  * POST /api/webhooks/send-message
  * Public webhook endpoint for N8N to send WhatsApp messages
@@ -40,22 +187,59 @@ function sanitizePhoneNumber(phone) {
  * Request Body:
  * {
  *   "agentId": "uuid",
- *   "to": "phone-number",
- *   "message": "message text"
+ *   "to": "phone-number" | "group-jid@g.us",
+ *   "message": "message text",            // required unless media or template is provided
+ *   "source": "webhook" | "ai",           // optional, recorded in message_log (default "webhook")
+ *   "queue": true,                        // optional (default true); false sends synchronously
+ *   "clientMessageId": "n8n-exec-123",    // optional, same as the Idempotency-Key header
+ *   "split": true | { "maxLength": 1000, "numbered": true },  // optional, text only; see below
+ *   "quotedMessageId": "ABCD1234",        // optional, message_log id to reply to
+ *   "mentions": ["923001234567"],         // optional; include "@923001234567" in the message text
+ *   "reaction": { "messageId": "ABCD1234", "emoji": "👍" },  // optional, sent on its own ("" removes)
+ *   "template": {                         // optional, instead of message/media
+ *     "name": "payment_instructions",
+ *     "language": "en",                   // optional; falls back to the base language, then "default"
+ *     "variables": { "amount": "5,000" }  // optional; undeclared values use the template defaults
+ *   },
+ *   "media": {                            // optional
+ *     "type": "image" | "video" | "audio" | "document",
+ *     "url": "https://..." | "base64": "<base64 or data URL>",  // URLs must resolve to a public address
+ *     "mimetype": "application/pdf",      // optional when the URL/data URL provides it
+ *     "fileName": "invoice.pdf",          // documents
+ *     "caption": "text",                  // defaults to "message"; not allowed for audio
+ *     "ptt": true                         // audio: send as voice note
+ *   }
  * }
+ *
+ * Queued sends respond 202 with a queueId immediately; the outbound queue worker
+ * delivers them at the agent's configured rate once the WhatsApp session is healthy.
+ * Poll GET /api/webhooks/send-message/:queueId?agentId=... for the outcome.
+ *
+ * With "split", text longer than a part (maxLength, default the WhatsApp limit) is broken on
+ * paragraph, sentence or word boundaries - never inside a URL or *formatting* - and the parts
+ * are sent in order (optionally suffixed "(1/3)"). The response lists every queueId/messageId.
+ *
+ * With an Idempotency-Key header (or clientMessageId), repeats of the same request within
+ * IDEMPOTENCY_RETENTION_HOURS get the original response (with "Idempotent-Replayed: true")
+ * instead of sending the message again.
  */
 router.post('/', async (req, res) => {
   const requestId = req.headers['x-request-id'] || `send-${Date.now()}`;
   const logPrefix = `[WEBHOOK-SEND-MESSAGE][${requestId}]`;
 
   try {
-    const { agentId, to, message } = req.body || {};
+    const {
+      agentId, to, message, media, template, source, queue, quotedMessageId, reaction, mentions, clientMessageId, split
+    } = req.body || {};
+    const idempotencyKey = req.get('Idempotency-Key') || req.get('X-Idempotency-Key') || clientMessageId;
 
     console.log(`${logPrefix} Incoming webhook request`, {
       agentId: agentId ? agentId.substring(0, 8) + '...' : 'missing',
       to: to ? to.substring(0, 10) + '...' : 'missing',
       hasMessage: typeof message === 'string',
-      messageLength: typeof message === 'string' ? message.length : 0
+      messageLength: typeof message === 'string' ? message.length : 0,
+      mediaType: media?.type || null,
+      template: template?.name || null
     });
 
     // Validate agentId
@@ -68,19 +252,64 @@ router.post('/', async (req, res) => {
       });
     }
 
-    // Validate phone number
-    const sanitizedTo = sanitizePhoneNumber(to);
-    if (!sanitizedTo || sanitizedTo.length < 10) {
+    if (idempotencyKey !== undefined && idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid idempotency key',
+        details: 'Idempotency-Key / clientMessageId must be a non-empty string of at most 255 characters'
+      });
+    }
+
+    // Validate phone number (group JIDs are passed through so n8n can reply in-thread)
+    const isGroupTarget = typeof to === 'string' && GROUP_JID_REGEX.test(to.trim());
+    const sanitizedTo = isGroupTarget ? to.trim() : sanitizePhoneNumber(to);
+    if (!sanitizedTo || (!isGroupTarget && sanitizedTo.length < 10)) {
       console.warn(`${logPrefix} Invalid phone number: ${to}`);
       return res.status(400).json({
         success: false,
         error: 'Invalid or missing phone number',
-        details: 'Phone number must contain at least 10 digits'
+        details: 'Phone number must contain at least 10 digits, or be a group JID ending in @g.us'
+      });
+    }
+
+    // Validate media payload (shape only; size and mimetype are checked once loaded)
+    if (media !== undefined && media !== null) {
+      const mediaError = validateMediaPayload(media);
+      if (mediaError) {
+        console.warn(`${logPrefix} Invalid media payload: ${mediaError}`);
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid media payload',
+          details: mediaError
+        });
+      }
+    }
+
+    if (template !== undefined && template !== null) {
+      const templateError = validateTemplateReference(template, { message, media });
+      if (templateError) {
+        console.warn(`${logPrefix} Invalid template reference: ${templateError}`);
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid template reference',
+          details: templateError
+        });
+      }
+    }
+
+    const extrasError = validateMessageExtras({ quotedMessageId, reaction, mentions, message, media, template });
+    if (extrasError) {
+      console.warn(`${logPrefix} Invalid reply/reaction/mention fields: ${extrasError}`);
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid message options',
+        details: extrasError
       });
     }
 
-    // Validate message
-    if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    // Validate message (optional when sending media, a template or a reaction; used as the caption)
+    const hasMessage = typeof message === 'string' && message.trim().length > 0;
+    if (!media && !template && !reaction && !hasMessage) {
       console.warn(`${logPrefix} Invalid message`);
       return res.status(400).json({
         success: false,
@@ -89,12 +318,45 @@ router.post('/', async (req, res) => {
       });
     }
 
-    if (message.length > MAX_MESSAGE_LENGTH) {
+    if (message !== undefined && message !== null && typeof message !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid message',
+        details: 'Message must be a string'
+      });
+    }
+
+    const splitOptions = split && typeof split === 'object' ? split : {};
+    const splitRequested = Boolean(split);
+    if (split !== undefined && split !== null) {
+      const splitError = validateSplitOption(split, { media, template, reaction });
+      if (splitError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid split option',
+          details: splitError
+        });
+      }
+    }
+
+    if (hasMessage && message.length > MAX_MESSAGE_LENGTH && !splitRequested) {
       console.warn(`${logPrefix} Message too long: ${message.length} chars`);
       return res.status(400).json({
         success: false,
         error: 'Message too long',
-        details: `Message must be less than ${MAX_MESSAGE_LENGTH} characters (WhatsApp limit)`
+        details: `Message must be less than ${MAX_MESSAGE_LENGTH} characters (WhatsApp limit), or set "split": true`
+      });
+    }
+
+    const parts = splitRequested && hasMessage
+      ? splitMessageText(message, { maxLength: splitOptions.maxLength, numbered: splitOptions.numbered === true })
+      : null;
+    if (parts && parts.length > MAX_SPLIT_PARTS) {
+      console.warn(`${logPrefix} Message too long to split: ${parts.length} parts`);
+      return res.status(400).json({
+        success: false,
+        error: 'Message too long',
+        details: `Split messages are limited to ${MAX_SPLIT_PARTS} parts (${parts.length} needed)`
       });
     }
 
@@ -123,12 +385,138 @@ router.post('/', async (req, res) => {
       });
     }
 
+    // Rejected up front so queued messages do not fail later in the worker
+    if (!isGroupTarget && await isNumberSuppressed(agentId, sanitizedTo)) {
+      console.warn(`${logPrefix} Recipient ${sanitizedTo} has opted out`);
+      return res.status(403).json({
+        success: false,
+        error: 'Recipient has opted out',
+        details: `${sanitizedTo} is on this agent's suppression list; they must opt in again before receiving messages`
+      });
+    }
+
+    if (idempotencyKey) {
+      const reservation = await reserveIdempotencyKey(agentId, idempotencyKey, hashRequestBody(req.body));
+
+      if (reservation.state === 'replay') {
+        console.log(`${logPrefix} ♻️ Replaying response for idempotency key ${idempotencyKey}`);
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(reservation.record.response_status).json(reservation.record.response_body);
+      }
+
+      if (reservation.state === 'in_progress') {
+        console.warn(`${logPrefix} Idempotency key ${idempotencyKey} is still being processed`);
+        return res.status(409).json({
+          success: false,
+          error: 'Request already in progress',
+          details: 'A request with this idempotency key is still being processed; retry shortly'
+        });
+      }
+
+      if (reservation.state === 'mismatch') {
+        console.warn(`${logPrefix} Idempotency key ${idempotencyKey} reused with a different payload`);
+        return res.status(422).json({
+          success: false,
+          error: 'Idempotency key reused',
+          details: 'This idempotency key was already used with a different request body'
+        });
+      }
+
+      rememberResponse(res, reservation.record, logPrefix);
+    }
+
+    // Templates are rendered now so queued messages keep the content they were requested with
+    let content = null;
+    if (template) {
+      try {
+        content = await buildTemplateMessage(agentId, template);
+      } catch (templateError) {
+        if (templateError instanceof TemplateError) {
+          console.warn(`${logPrefix} Template "${template.name}" not usable: ${templateError.details}`);
+          return res.status(templateError.message === 'Template not found' ? 404 : 400).json({
+            success: false,
+            error: templateError.message,
+            details: templateError.details
+          });
+        }
+        throw templateError;
+      }
+    } else if (media) {
+      content = {
+        media: {
+          ...media,
+          caption: media.caption || (hasMessage && media.type !== 'audio' ? message.trim() : undefined)
+        }
+      };
+    } else if (!reaction) {
+      content = { text: message.trim() };
+    }
+
+    const outgoing = reaction
+      ? { reaction: { messageId: reaction.messageId, emoji: reaction.emoji } }
+      : {
+        ...content,
+        ...(quotedMessageId && { quotedMessageId }),
+        ...(Array.isArray(mentions) && mentions.length > 0 && { mentions })
+      };
+    const mediaType = outgoing.media?.type || null;
+    const sendOptions = {
+      source: source === 'ai' ? 'ai' : 'webhook',
+      requestId
+    };
+
+    // Split messages: the reply quote goes on the first part only
+    const outgoingParts = parts && parts.length > 1
+      ? parts.map((text, index) => {
+        const partMentions = mentionsInText(mentions, text);
+        return {
+          text,
+          ...(index === 0 && quotedMessageId && { quotedMessageId }),
+          ...(partMentions.length > 0 && { mentions: partMentions })
+        };
+      })
+      : [outgoing];
+    const isSplit = outgoingParts.length > 1;
+
+    // Queue by default so callers are not blocked by throttling or a reconnecting session
+    if (queue !== false) {
+      // One insert for all parts, so a failed request never leaves some of them queued
+      const queuedParts = await enqueueMessages(agentId, sanitizedTo, outgoingParts, {
+        ...sendOptions,
+        partDelayMs: SPLIT_PART_DELAY_MS
+      });
+      const queued = queuedParts[0];
+
+      console.log(`${logPrefix} 📥 Message queued`, {
+        agentId: agentId.substring(0, 8) + '...',
+        queueId: queued.id,
+        parts: queuedParts.length
+      });
+
+      return res.status(202).json({
+        success: true,
+        message: 'Message queued',
+        data: {
+          agentId,
+          to: sanitizedTo,
+          queueId: queued.id,
+          ...(isSplit && { queueIds: queuedParts.map((item) => item.id), parts: queuedParts.length }),
+          status: queued.status,
+          mediaType,
+          ...(template && { template: template.name }),
+          requestId,
+          queuedAt: queued.created_at
+        }
+      });
+    }
+
     // Check WhatsApp connection status
     const statusResult = await getWhatsAppStatus(agentId);
     
     if (!statusResult.connected || !statusResult.is_active) {
       console.warn(`${logPrefix} WhatsApp not connected for agent ${agentId}`);
-      return res.status(400).json({
+      // 503 so an idempotency key is released and a retry is sent once the session is back
+      return res.status(503).json({
         success: false,
         error: 'WhatsApp not connected',
         details: `Agent ${agentData.agent_name} is not connected to WhatsApp. Status: ${statusResult.status}`,
@@ -137,13 +525,22 @@ router.post('/', async (req, res) => {
     }
 
     // Send message via Baileys
+    const sendResults = [];
     try {
-      await sendMessage(agentId, sanitizedTo, message.trim());
-      
+      for (const [index, part] of outgoingParts.entries()) {
+        if (index > 0) {
+          await sleep(SPLIT_PART_DELAY_MS);
+        }
+        sendResults.push(await sendMessage(agentId, sanitizedTo, part, sendOptions));
+      }
+      const sendResult = sendResults[0];
+
       console.log(`${logPrefix} ✅ Message sent successfully`, {
         agentId: agentId.substring(0, 8) + '...',
         to: sanitizedTo.substring(0, 10) + '...',
-        messageLength: message.length
+        messageLength: isSplit ? message.trim().length : (outgoing.text ? outgoing.text.length : 0),
+        parts: sendResults.length,
+        mediaType
       });
 
       return res.status(200).json({
@@ -152,26 +549,67 @@ router.post('/', async (req, res) => {
         data: {
           agentId,
           to: sanitizedTo,
+          messageId: sendResult?.messageId || null,
+          ...(isSplit && { messageIds: sendResults.map((result) => result?.messageId || null), parts: sendResults.length }),
+          trackingId: sendResult?.trackingId || null,
+          status: sendResult?.status || null,
+          mediaType,
+          ...(template && { template: template.name }),
+          requestId,
           sentAt: new Date().toISOString()
         }
       });
     } catch (sendError) {
       console.error(`${logPrefix} ❌ Failed to send message:`, sendError.message);
+
+      // Parts that already went out are reported so the caller does not resend them
+      const partial = sendResults.length > 0
+        ? { partsSent: sendResults.length, messageIds: sendResults.map((result) => result?.messageId || null) }
+        : {};
+
+      if (sendError instanceof MessageReferenceError) {
+        return res.status(404).json({
+          success: false,
+          error: sendError.message,
+          details: sendError.details,
+          ...partial
+        });
+      }
+
+      if (sendError instanceof SuppressedRecipientError) {
+        return res.status(403).json({
+          success: false,
+          error: sendError.message,
+          details: sendError.details,
+          ...partial
+        });
+      }
+
+      if (sendError instanceof MediaPayloadError) {
+        return res.status(400).json({
+          success: false,
+          error: sendError.message,
+          details: sendError.details,
+          ...partial
+        });
+      }
       
       // Check if it's a connection error
       if (sendError.message.includes('not connected')) {
-        return res.status(400).json({
+        return res.status(503).json({
           success: false,
           error: 'WhatsApp connection lost',
           details: 'The WhatsApp session was disconnected. Please reconnect the agent.',
-          status: statusResult.status
+          status: statusResult.status,
+          ...partial
         });
       }
 
       return res.status(500).json({
         success: false,
         error: 'Failed to send message',
-        details: sendError.message
+        details: sendError.message,
+        ...partial
       });
     }
 
@@ -185,5 +623,57 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/webhooks/send-message/:queueId?agentId=uuid
+ * Status of a queued message (queued | sending | sent | failed | cancelled)
+ */
+router.get('/:queueId', async (req, res) => {
+  const { queueId } = req.params;
+  const { agentId } = req.query;
+
+  if (!UUID_REGEX.test(queueId) || typeof agentId !== 'string' || !UUID_REGEX.test(agentId)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid queueId or agentId',
+      details: 'queueId and agentId must be valid UUIDs'
+    });
+  }
+
+  try {
+    const item = await getQueueItem(agentId, queueId);
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Queued message not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        queueId: item.id,
+        agentId: item.agent_id,
+        to: item.recipient,
+        status: item.status,
+        attempts: item.attempts,
+        messageId: item.wa_message_id,
+        trackingId: item.tracking_id,
+        lastError: item.last_error,
+        sentAt: item.sent_at,
+        failedAt: item.failed_at,
+        queuedAt: item.created_at
+      }
+    });
+  } catch (error) {
+    console.error(`[WEBHOOK-SEND-MESSAGE] ❌ Failed to load queued message ${queueId}:`, error.message);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load queued message',
+      details: error.message
+    });
+  }
+});
+
 module.exports = router;
 
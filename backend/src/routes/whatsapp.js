@@ -7,6 +7,7 @@ const {
   disconnectWhatsApp 
 } = require('../services/whatsappService');
 const { authMiddleware } = require('../middleware/auth');
+const { SuppressedRecipientError } = require('../services/consentService');
 const pool = require('../database');
 
 const router = express.Router();
@@ -86,9 +87,13 @@ router.post('/send', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Phone number and message required' });
     }
 
-    await sendMessage(userId, phoneNumber, message);
-    res.json({ success: true, message: 'Message sent' });
+    const requestId = req.headers['x-request-id'] || `manual-${Date.now()}`;
+    const result = await sendMessage(userId, phoneNumber, message, { source: 'manual', requestId });
+    res.json({ success: true, message: 'Message sent', messageId: result?.messageId || null, requestId });
   } catch (error) {
+    if (error instanceof SuppressedRecipientError) {
+      return res.status(403).json({ error: error.message, details: error.details });
+    }
     res.status(500).json({ error: error.message });
   }
 });
@@ -0,0 +1,148 @@
+const crypto = require('crypto');
+const { supabaseAdmin } = require('../config/supabase');
+
+const API_KEY_PREFIX = 'pak_';
+const API_KEY_SCOPES = ['messages:send', 'contacts:read', 'contacts:write', 'kb:query'];
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000; // last_used_at is refreshed at most once a minute per key
+
+const lastUsedWrites = new Map(); // keyId -> timestamp ms
+
+function isApiKey(token) {
+  return typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+}
+
+function hashApiKey(key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey() {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function toPublicKey(row) {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    scopes: row.scopes,
+    last_used_at: row.last_used_at,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Create a key; the plaintext is returned once and only its hash is stored
+ * @returns {Promise<{ apiKey: object, key: string }>}
+ */
+async function createApiKey(agentId, userId, { name, scopes, expiresAt }) {
+  const key = generateApiKey();
+
+  const { data, error } = await supabaseAdmin
+    .from('agent_api_keys')
+    .insert({
+      agent_id: agentId,
+      user_id: userId,
+      name,
+      key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      key_hash: hashApiKey(key),
+      scopes: [...new Set(scopes)],
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`[API-KEYS] 🔑 Created key ${data.key_prefix}… for agent ${agentId} (${data.scopes.join(', ')})`);
+  return { apiKey: toPublicKey(data), key };
+}
+
+async function listApiKeys(agentId) {
+  const { data, error } = await supabaseAdmin
+    .from('agent_api_keys')
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(toPublicKey);
+}
+
+/**
+ * @returns {Promise<object|null>} the revoked key, or null if it was not found or already revoked
+ */
+async function revokeApiKey(agentId, keyId) {
+  const { data, error } = await supabaseAdmin
+    .from('agent_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('agent_id', agentId)
+    .eq('id', keyId)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? toPublicKey(data) : null;
+}
+
+function touchLastUsed(keyId) {
+  const now = Date.now();
+  if (now - (lastUsedWrites.get(keyId) || 0) < LAST_USED_WRITE_INTERVAL_MS) {
+    return;
+  }
+  lastUsedWrites.set(keyId, now);
+
+  supabaseAdmin
+    .from('agent_api_keys')
+    .update({ last_used_at: new Date(now).toISOString() })
+    .eq('id', keyId)
+    .then(({ error }) => {
+      if (error) {
+        console.error('[API-KEYS] ❌ Failed to record key usage:', error.message);
+      }
+    });
+}
+
+/**
+ * Look up an active (not revoked, not expired) key by its plaintext value
+ * @returns {Promise<object|null>}
+ */
+async function authenticateApiKey(key) {
+  const { data, error } = await supabaseAdmin
+    .from('agent_api_keys')
+    .select('id, agent_id, user_id, name, key_prefix, scopes, expires_at, revoked_at')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.revoked_at || (data.expires_at && new Date(data.expires_at).getTime() <= Date.now())) {
+    return null;
+  }
+
+  touchLastUsed(data.id);
+  return data;
+}
+
+module.exports = {
+  API_KEY_SCOPES,
+  isApiKey,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  authenticateApiKey,
+};
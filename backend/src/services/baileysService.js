@@ -5,15 +5,24 @@ const {
   Browsers,
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
-  downloadMediaMessage
+  downloadMediaMessage,
+  decryptPollVote,
+  getKeyAuthor,
+  jidNormalizedUser,
+  generateMessageIDV2
 } = require('@whiskeysockets/baileys');
 const pino = require('pino');
 const fs = require('fs');
 const path = require('path');
-const { randomUUID } = require('crypto');
+const { randomUUID, createHash } = require('crypto');
 const EventEmitter = require('events');
 const { supabaseAdmin } = require('../config/supabase');
-const axios = require('axios');
+const messageStatusService = require('./messageStatusService');
+const lidMappingService = require('./lidMappingService');
+const { transcribeAudio } = require('./transcriptionService');
+const { resolveMediaPayload, buildMediaMessageContent } = require('./outboundMediaService');
+const consentService = require('./consentService');
+const webhookOutboxService = require('./webhookOutboxService');
 
 const STORAGE_BUCKET = 'agent-files';
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
@@ -23,11 +32,56 @@ const ALLOWED_FILE_TYPES = new Set([
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
 ]);
 
-const DEFAULT_AUDIO_BUCKET = 'agent-audio-messages';
-const FALLBACK_AUDIO_BUCKET = process.env.AUDIO_FALLBACK_BUCKET || 'agent-files';
-let audioBucketName = process.env.AUDIO_BUCKET || DEFAULT_AUDIO_BUCKET;
-const DEFAULT_AUDIO_SIGNED_URL_TTL = 60 * 60 * 24 * 7; // 7 days
-let audioBucketChecked = false;
+const MEDIA_FALLBACK_BUCKET =
+  process.env.MEDIA_FALLBACK_BUCKET || process.env.AUDIO_FALLBACK_BUCKET || 'agent-files';
+const DEFAULT_MEDIA_SIGNED_URL_TTL = 60 * 60 * 24 * 7; // 7 days
+
+// Inbound media pipeline: one bucket and size limit per media kind.
+// Bucket names and limits can be overridden per kind via env (e.g. IMAGE_BUCKET, MEDIA_MAX_IMAGE_BYTES).
+const MEDIA_TYPE_CONFIG = {
+  audio: {
+    messageKey: 'audioMessage',
+    messageType: 'AUDIO',
+    bucket: process.env.AUDIO_BUCKET || 'agent-audio-messages',
+    maxBytes: Number(process.env.MEDIA_MAX_AUDIO_BYTES) || 16 * 1024 * 1024, // 16MB
+    defaultMimetype: 'audio/ogg',
+    emoji: '🎵',
+  },
+  image: {
+    messageKey: 'imageMessage',
+    messageType: 'IMAGE',
+    bucket: process.env.IMAGE_BUCKET || 'agent-image-messages',
+    maxBytes: Number(process.env.MEDIA_MAX_IMAGE_BYTES) || 16 * 1024 * 1024, // 16MB
+    defaultMimetype: 'image/jpeg',
+    emoji: '🖼️',
+  },
+  video: {
+    messageKey: 'videoMessage',
+    messageType: 'VIDEO',
+    bucket: process.env.VIDEO_BUCKET || 'agent-video-messages',
+    maxBytes: Number(process.env.MEDIA_MAX_VIDEO_BYTES) || 64 * 1024 * 1024, // 64MB
+    defaultMimetype: 'video/mp4',
+    emoji: '🎬',
+  },
+  document: {
+    messageKey: 'documentMessage',
+    messageType: 'DOCUMENT',
+    bucket: process.env.DOCUMENT_BUCKET || 'agent-document-messages',
+    maxBytes: Number(process.env.MEDIA_MAX_DOCUMENT_BYTES) || 50 * 1024 * 1024, // 50MB
+    defaultMimetype: 'application/octet-stream',
+    emoji: '📄',
+  },
+  sticker: {
+    messageKey: 'stickerMessage',
+    messageType: 'STICKER',
+    bucket: process.env.STICKER_BUCKET || 'agent-sticker-messages',
+    maxBytes: Number(process.env.MEDIA_MAX_STICKER_BYTES) || 1 * 1024 * 1024, // 1MB
+    defaultMimetype: 'image/webp',
+    emoji: '🏷️',
+  },
+};
+const mediaBucketNames = new Map(); // media kind -> bucket in use (may switch to fallback)
+const checkedMediaBuckets = new Set(); // bucket names verified/created this process
 
 // SECURITY: Generate unique instance ID for multi-instance prevention
 const os = require('os');
@@ -51,9 +105,20 @@ const lastConnectionAttempt = new Map(); // agentId -> timestamp ms
 const last401Failure = new Map(); // agentId -> timestamp ms (prevents auto-retry after 401)
 const COOLDOWN_MS = 5000; // 5 seconds between connection attempts
 const FAILURE_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes after 401 errors before allowing retry
-const MESSAGE_FORWARD_TIMEOUT_MS = 10000;
-const DEFAULT_MESSAGE_WEBHOOK_TEST = 'https://auto.nsolbpo.com/webhook-test/a18ff948-9380-4abe-a8d8-0912dae2d8ab';
-const DEFAULT_MESSAGE_WEBHOOK_PROD = 'https://auto.nsolbpo.com/webhook/a18ff948-9380-4abe-a8d8-0912dae2d8ab';
+const groupSubjectCache = new Map(); // `${agentId}:${groupJid}` -> { subject, fetchedAt }
+const GROUP_SUBJECT_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const pollMessageCache = new Map(); // `${agentId}:${pollMessageId}` -> { name, options, encKey }
+const POLL_MESSAGE_CACHE_MAX = 500;
+const historySyncProgress = new Map(); // agentId -> { imported, startedAt }
+const HISTORY_SYNC_DEFAULT_DAYS = 30;
+const HISTORY_SYNC_MAX_DAYS = 365;
+const HISTORY_SYNC_BATCH_SIZE = 500;
+const lastInboundKeys = new Map(); // `${agentId}:${chatJid}` -> key of the latest inbound message
+const LAST_INBOUND_KEYS_MAX = 5000;
+const HUMANIZE_MS_PER_CHAR = 60; // roughly a fast typist
+const HUMANIZE_PRESENCE_REFRESH_MS = 8000; // WhatsApp drops "composing" after ~10 seconds
+// Kept well below the outbound queue's 2-minute claim lease, which also covers media download and the send
+const HUMANIZE_MAX_DELAY_SECONDS = 30;
 
 const agentEventEmitter = new EventEmitter();
 agentEventEmitter.setMaxListeners(0);
@@ -73,123 +138,713 @@ function subscribeToAgentEvents(agentId, listener) {
   return () => agentEventEmitter.off(key, listener);
 }
 
-function getInboundMessageWebhook() {
-  const explicit = process.env.WHATSAPP_MESSAGE_WEBHOOK;
-  if (explicit) {
-    return explicit;
+/**
+ * Forward a message/event payload to the inbound webhook through the durable outbox.
+ * The first attempt is made right away; failures are retried by the outbox worker with backoff
+ * and dead-lettered after WEBHOOK_OUTBOX_MAX_ATTEMPTS. Returns true when delivered immediately.
+ * Pass `directFallback: false` when the event is also kept elsewhere for the outbox worker to recover.
+ */
+async function forwardMessageToWebhook(
+  agentId,
+  messagePayload,
+  { eventKey = null, messageId = null, directFallback = true } = {}
+) {
+  let outboxItem;
+  try {
+    outboxItem = await webhookOutboxService.enqueueWebhookEvent(agentId, messagePayload, { eventKey, messageId });
+  } catch (error) {
+    if (!directFallback) {
+      console.error('[BAILEYS][WEBHOOK] ❌ Outbox unavailable, leaving the event to the outbox worker:', error.message);
+      return false;
+    }
+
+    // Without the outbox row we cannot retry; prefer a single direct attempt over dropping
+    console.error('[BAILEYS][WEBHOOK] ❌ Outbox unavailable, forwarding directly:', error.message);
+    const result = await webhookOutboxService.postToInboundWebhook(agentId, messagePayload);
+    if (!result.delivered) {
+      console.error(`[BAILEYS][WEBHOOK] ❌ Failed to forward ${messagePayload.messageId || messagePayload.id} to ${result.webhookUrl}: ${result.error}`);
+    }
+    return result.delivered;
+  }
+
+  if (!outboxItem) {
+    console.log(`[BAILEYS] ♻️ Skipping webhook forwarding for ${eventKey} (already in the outbox)`);
+    return false;
   }
 
-  const prodSpecific = process.env.WHATSAPP_MESSAGE_WEBHOOK_PROD;
-  const testSpecific = process.env.WHATSAPP_MESSAGE_WEBHOOK_TEST;
-  const isProd = process.env.NODE_ENV === 'production';
+  return webhookOutboxService.deliverOutboxItem(outboxItem);
+}
 
-  if (isProd) {
-    return prodSpecific || testSpecific || DEFAULT_MESSAGE_WEBHOOK_PROD;
+function sanitizeNumberFromJid(jid) {
+  if (!jid || typeof jid !== 'string') {
+    return null;
   }
 
-  return testSpecific || prodSpecific || DEFAULT_MESSAGE_WEBHOOK_TEST;
+  const atSplit = jid.split('@')[0] || '';
+  const base = atSplit.split(':')[0];
+  const digits = base.replace(/\D/g, '');
+  return digits.length > 0 ? digits : null;
 }
 
-async function forwardMessageToWebhook(agentId, messagePayload) {
-  const webhookUrl = getInboundMessageWebhook();
+function unwrapMessageContent(message) {
+  if (!message) {
+    return {};
+  }
 
-  if (!webhookUrl) {
-    console.warn('[BAILEYS][WEBHOOK] ⚠️ No inbound webhook configured. Skipping message forward.');
-    return;
+  if (message.ephemeralMessage?.message) {
+    return unwrapMessageContent(message.ephemeralMessage.message);
+  }
+
+  if (message.viewOnceMessage?.message) {
+    return unwrapMessageContent(message.viewOnceMessage.message);
+  }
+
+  return message;
+}
+
+function isGroupJid(jid) {
+  return typeof jid === 'string' && jid.endsWith('@g.us');
+}
+
+// Returns the contextInfo block of whichever message type carries it
+// (extendedTextMessage, imageMessage, videoMessage, ...)
+function getMessageContextInfo(message) {
+  const content = unwrapMessageContent(message);
+
+  for (const value of Object.values(content || {})) {
+    if (value && typeof value === 'object' && value.contextInfo) {
+      return value.contextInfo;
+    }
+  }
+
+  return null;
+}
+
+function normalizeGroupChatSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const keywords = Array.isArray(source.keywords)
+    ? source.keywords
+      .filter((keyword) => typeof keyword === 'string' && keyword.trim().length > 0)
+      .map((keyword) => keyword.trim().toLowerCase())
+    : [];
+
+  return {
+    enabled: source.enabled === true,
+    respondToMentions: source.respondToMentions !== false,
+    respondToReplies: source.respondToReplies !== false,
+    keywords,
+  };
+}
+
+/**
+ * Decide whether a group message should be forwarded to the webhook.
+ * Returns the trigger that matched ('mention' | 'reply' | 'keyword') or null.
+ */
+function detectGroupTrigger({ contextInfo, text, agentIdentities, settings }) {
+  const isAgentJid = (jid) => agentIdentities.includes(sanitizeNumberFromJid(jid));
+
+  if (settings.respondToMentions) {
+    const mentioned = Array.isArray(contextInfo?.mentionedJid) ? contextInfo.mentionedJid : [];
+    if (mentioned.some(isAgentJid)) {
+      return 'mention';
+    }
+  }
+
+  if (settings.respondToReplies && contextInfo?.stanzaId && isAgentJid(contextInfo.participant)) {
+    return 'reply';
+  }
+
+  if (settings.keywords.length > 0 && typeof text === 'string') {
+    const normalizedText = text.toLowerCase();
+    if (settings.keywords.some((keyword) => normalizedText.includes(keyword))) {
+      return 'keyword';
+    }
+  }
+
+  return null;
+}
+
+async function getGroupSubject(agentId, sock, groupJid) {
+  const cacheKey = `${agentId}:${groupJid}`;
+  const cached = groupSubjectCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.fetchedAt < GROUP_SUBJECT_CACHE_TTL_MS) {
+    return cached.subject;
   }
 
   try {
-    // CRITICAL: Fetch user_id from agents table before sending webhook
-    let userId = null;
-    try {
-      const { data: agentData, error: agentError } = await supabaseAdmin
-        .from('agents')
-        .select('user_id')
-        .eq('id', agentId)
-        .single();
-
-      if (agentError) {
-        console.error(`[BAILEYS][WEBHOOK] ❌ Failed to fetch agent user_id:`, agentError.message);
-        // Continue without user_id rather than failing completely
-      } else if (agentData && agentData.user_id) {
-        userId = agentData.user_id;
-        console.log(`[BAILEYS][WEBHOOK] ✅ Fetched user_id for agent ${agentId}: ${userId}`);
-      } else {
-        console.warn(`[BAILEYS][WEBHOOK] ⚠️ Agent ${agentId} has no user_id set in database`);
+    const metadata = await sock.groupMetadata(groupJid);
+    const subject = metadata?.subject || null;
+    groupSubjectCache.set(cacheKey, { subject, fetchedAt: Date.now() });
+    return subject;
+  } catch (error) {
+    console.warn(`[BAILEYS] ⚠️ Failed to fetch group metadata for ${groupJid}:`, error.message);
+    return cached?.subject || null;
+  }
+}
+
+// Parses TEL entries out of a vCard (WhatsApp adds waid=<number> for registered numbers)
+function parseVCard(vcard) {
+  if (!vcard || typeof vcard !== 'string') {
+    return { fullName: null, organization: null, numbers: [], emails: [] };
+  }
+
+  // Unfold continuation lines (RFC 6350 §3.2)
+  const lines = vcard.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const result = { fullName: null, organization: null, numbers: [], emails: [] };
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/^item\d+\./i, '');
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const property = line.slice(0, separatorIndex);
+    const value = line.slice(separatorIndex + 1).trim();
+    const name = property.split(';')[0].toUpperCase();
+
+    if (name === 'FN' && value) {
+      result.fullName = value;
+    } else if (name === 'ORG' && value) {
+      result.organization = value.replace(/;+$/, '').replace(/;/g, ' ').trim();
+    } else if (name === 'EMAIL' && value) {
+      result.emails.push(value);
+    } else if (name === 'TEL') {
+      const waId = property.match(/waid=(\d+)/i)?.[1] || null;
+      const typeMatch = property.match(/type=([^;:]+)/i);
+      const number = waId || value.replace(/\D/g, '');
+      if (number) {
+        result.numbers.push({
+          number,
+          formatted: value || null,
+          waId,
+          type: typeMatch ? typeMatch[1].toUpperCase() : null,
+        });
       }
-    } catch (fetchError) {
-      console.error(`[BAILEYS][WEBHOOK] ❌ Error fetching user_id:`, fetchError.message);
-      // Continue without user_id rather than failing completely
     }
+  }
 
-    // Construct webhook payload with user_id (snake_case to match database field)
-    const webhookPayload = {
-      agentId,
-      ...(userId && { user_id: userId }), // Include user_id only if it exists
-      ...messagePayload,
+  return result;
+}
+
+function buildContactCard(contactMessage) {
+  const parsed = parseVCard(contactMessage?.vcard);
+  return {
+    displayName: contactMessage?.displayName || parsed.fullName || null,
+    fullName: parsed.fullName,
+    organization: parsed.organization,
+    numbers: parsed.numbers,
+    emails: parsed.emails,
+  };
+}
+
+function getPollCreationMessage(content) {
+  return (
+    content?.pollCreationMessage ||
+    content?.pollCreationMessageV2 ||
+    content?.pollCreationMessageV3 ||
+    null
+  );
+}
+
+function cachePollMessage(agentId, pollMessageId, poll) {
+  if (pollMessageCache.size >= POLL_MESSAGE_CACHE_MAX) {
+    // Map preserves insertion order, so the first key is the oldest entry
+    pollMessageCache.delete(pollMessageCache.keys().next().value);
+  }
+  pollMessageCache.set(`${agentId}:${pollMessageId}`, poll);
+}
+
+// Poll creations are cached in memory and persisted (with their secret) in message_log metadata
+async function findPollMessage(agentId, pollMessageId) {
+  const cached = pollMessageCache.get(`${agentId}:${pollMessageId}`);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('message_log')
+      .select('metadata')
+      .eq('agent_id', agentId)
+      .eq('message_id', pollMessageId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data?.metadata?.poll || !data.metadata.pollEncKey) {
+      return null;
+    }
+
+    const poll = {
+      name: data.metadata.poll.name,
+      options: data.metadata.poll.options || [],
+      encKey: data.metadata.pollEncKey,
     };
+    cachePollMessage(agentId, pollMessageId, poll);
+    return poll;
+  } catch (error) {
+    console.warn('[BAILEYS] ⚠️ Failed to load poll creation message:', error.message);
+    return null;
+  }
+}
 
-    await axios.post(
-      webhookUrl,
-      webhookPayload,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-WhatsApp-Agent': agentId,
-          'X-WhatsApp-RemoteJid': messagePayload.from,
-        },
-        timeout: MESSAGE_FORWARD_TIMEOUT_MS,
-      }
-    );
+async function decodePollVote({ agentId, sock, msg, pollUpdate }) {
+  const creationKey = pollUpdate?.pollCreationMessageKey;
+  const vote = {
+    pollMessageId: creationKey?.id || null,
+    pollName: null,
+    selectedOptions: null,
+  };
+
+  if (!creationKey?.id || !pollUpdate?.vote) {
+    return vote;
+  }
+
+  const poll = await findPollMessage(agentId, creationKey.id);
+  if (!poll) {
+    console.warn('[BAILEYS] ⚠️ Poll vote received for unknown poll:', creationKey.id);
+    return vote;
+  }
+
+  vote.pollName = poll.name || null;
 
-    const label = messagePayload.messageType || messagePayload.type || 'message';
-    console.log(
-      `[BAILEYS][WEBHOOK] ✅ Forwarded ${label} ${messagePayload.messageId || messagePayload.id} from ${messagePayload.from}${userId ? ` (user_id: ${userId})` : ''}`
+  try {
+    const meId = jidNormalizedUser(sock?.user?.id);
+    const decrypted = decryptPollVote(pollUpdate.vote, {
+      pollCreatorJid: getKeyAuthor(creationKey, meId),
+      pollMsgId: creationKey.id,
+      pollEncKey: Buffer.from(poll.encKey, 'base64'),
+      voterJid: getKeyAuthor(msg.key, meId),
+    });
+
+    // Votes carry SHA-256 hashes of the option names, not the names themselves
+    const optionsByHash = new Map(
+      (poll.options || []).map((option) => [createHash('sha256').update(option).digest('hex'), option])
     );
+    vote.selectedOptions = (decrypted?.selectedOptions || [])
+      .map((hash) => optionsByHash.get(Buffer.from(hash).toString('hex')))
+      .filter(Boolean);
   } catch (error) {
-    const status = error.response?.status;
-    const responseData = error.response?.data;
-    const messageHint = responseData || error.message;
-
-    console.error(
-      `[BAILEYS][WEBHOOK] ❌ Failed to forward ${messagePayload.messageType || messagePayload.type || 'message'} ${
-        messagePayload.messageId || messagePayload.id
-      } to ${webhookUrl}. Status: ${status || 'n/a'}`,
-      messageHint
-    );
+    console.warn('[BAILEYS] ⚠️ Failed to decrypt poll vote:', error.message);
   }
+
+  return vote;
 }
 
-function sanitizeNumberFromJid(jid) {
-  if (!jid || typeof jid !== 'string') {
+/**
+ * Extract typed payloads for non-text, non-media messages.
+ * Returns { messageType, content, data } or null when the message is not one of these types.
+ * `data` is keyed by payload name (location, contacts, reaction, pollVote, poll).
+ */
+async function extractStructuredMessage({ agentId, sock, msg }) {
+  const content = unwrapMessageContent(msg.message);
+  if (!content) {
     return null;
   }
 
-  const atSplit = jid.split('@')[0] || '';
-  const base = atSplit.split(':')[0];
-  const digits = base.replace(/\D/g, '');
-  return digits.length > 0 ? digits : null;
+  const locationMessage = content.locationMessage || content.liveLocationMessage;
+  if (locationMessage) {
+    const location = {
+      latitude: locationMessage.degreesLatitude ?? null,
+      longitude: locationMessage.degreesLongitude ?? null,
+      name: locationMessage.name || null,
+      address: locationMessage.address || null,
+      url: locationMessage.url || null,
+      comment: locationMessage.comment || locationMessage.caption || null,
+      isLive: Boolean(content.liveLocationMessage),
+      accuracyInMeters: locationMessage.accuracyInMeters || null,
+    };
+    const summary =
+      [location.name, location.address].filter(Boolean).join(', ') ||
+      `${location.latitude},${location.longitude}`;
+    return { messageType: 'LOCATION', content: summary, data: { location } };
+  }
+
+  if (content.contactMessage || content.contactsArrayMessage) {
+    const contactMessages = content.contactMessage
+      ? [content.contactMessage]
+      : content.contactsArrayMessage.contacts || [];
+    const contacts = contactMessages.map(buildContactCard);
+    const summary =
+      content.contactsArrayMessage?.displayName ||
+      contacts.map((contact) => contact.displayName).filter(Boolean).join(', ') ||
+      null;
+    return { messageType: 'CONTACT', content: summary, data: { contacts } };
+  }
+
+  if (content.reactionMessage) {
+    const reactionMessage = content.reactionMessage;
+    const reaction = {
+      emoji: reactionMessage.text || null,
+      removed: !reactionMessage.text,
+      targetMessageId: reactionMessage.key?.id || null,
+      targetFromMe: Boolean(reactionMessage.key?.fromMe),
+      targetRemoteJid: reactionMessage.key?.remoteJid || null,
+    };
+    return { messageType: 'REACTION', content: reaction.emoji, data: { reaction } };
+  }
+
+  if (content.pollUpdateMessage) {
+    const pollVote = await decodePollVote({ agentId, sock, msg, pollUpdate: content.pollUpdateMessage });
+    const summary = Array.isArray(pollVote.selectedOptions) ? pollVote.selectedOptions.join(', ') : null;
+    return { messageType: 'POLL_VOTE', content: summary, data: { pollVote } };
+  }
+
+  const pollCreation = getPollCreationMessage(content);
+  if (pollCreation) {
+    const poll = {
+      name: pollCreation.name || null,
+      options: (pollCreation.options || []).map((option) => option.optionName).filter(Boolean),
+      selectableCount: pollCreation.selectableOptionsCount || 0,
+    };
+    const secret = content.messageContextInfo?.messageSecret || msg.message?.messageContextInfo?.messageSecret;
+    const encKey = secret ? Buffer.from(secret).toString('base64') : null;
+
+    if (encKey && msg.key?.id) {
+      cachePollMessage(agentId, msg.key.id, { ...poll, encKey });
+    }
+
+    return { messageType: 'POLL', content: poll.name, data: { poll }, pollEncKey: encKey };
+  }
+
+  return null;
 }
 
-function unwrapMessageContent(message) {
-  if (!message) {
-    return {};
+// proto.Message.ProtocolMessage.Type values used for message changes
+const PROTOCOL_MESSAGE_REVOKE = 0;
+const PROTOCOL_MESSAGE_EDIT = 14;
+
+function getEditableText(message) {
+  const content = unwrapMessageContent(message);
+  return (
+    content?.conversation ||
+    content?.extendedTextMessage?.text ||
+    content?.imageMessage?.caption ||
+    content?.videoMessage?.caption ||
+    content?.documentMessage?.caption ||
+    null
+  );
+}
+
+/**
+ * Detect "edit" and "delete for everyone" protocol messages.
+ * Returns { kind: 'edited' | 'revoked', targetMessageId, text, changedAt } or null.
+ */
+function getMessageChange(message) {
+  const content = unwrapMessageContent(message);
+  // Edits may arrive wrapped in editedMessage depending on the sending client
+  const protocolMessage = content?.protocolMessage || content?.editedMessage?.message?.protocolMessage;
+
+  if (!protocolMessage?.key?.id) {
+    return null;
   }
 
-  if (message.ephemeralMessage?.message) {
-    return unwrapMessageContent(message.ephemeralMessage.message);
+  const type = Number(protocolMessage.type);
+  const changedAt = protocolMessage.timestampMs
+    ? new Date(Number(protocolMessage.timestampMs)).toISOString()
+    : new Date().toISOString();
+
+  if (type === PROTOCOL_MESSAGE_REVOKE) {
+    return { kind: 'revoked', targetMessageId: protocolMessage.key.id, text: null, changedAt };
   }
 
-  if (message.viewOnceMessage?.message) {
-    return unwrapMessageContent(message.viewOnceMessage.message);
+  if (type === PROTOCOL_MESSAGE_EDIT) {
+    return {
+      kind: 'edited',
+      targetMessageId: protocolMessage.key.id,
+      text: getEditableText(protocolMessage.editedMessage),
+      changedAt,
+    };
   }
 
-  return message;
+  return null;
+}
+
+/**
+ * Apply an edit/revoke to the original message_log row and forward the change event.
+ * Edit history is kept in metadata.editHistory; revoked rows keep their text but are flagged.
+ */
+async function handleMessageChange({ agentId, msg, change, agentNumber }) {
+  const remoteJid = msg?.key?.remoteJid;
+  const fromMe = Boolean(msg?.key?.fromMe);
+  const senderJid = isGroupJid(remoteJid) ? msg?.key?.participant || msg?.participant : remoteJid;
+  const contactJid = fromMe ? remoteJid : senderJid;
+  const contactNumber =
+    (await lidMappingService.resolvePhoneNumber(agentId, contactJid)) || sanitizeNumberFromJid(contactJid) || remoteJid;
+
+  console.log(`[BAILEYS] ✏️ Message ${change.kind}: ${change.targetMessageId} in ${remoteJid}`);
+
+  const { data: original, error: fetchError } = await supabaseAdmin
+    .from('message_log')
+    .select('id, message_text, metadata')
+    .eq('agent_id', agentId)
+    .eq('message_id', change.targetMessageId)
+    .limit(1)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('[BAILEYS][DB] ❌ Failed to load original message for change', {
+      agentId,
+      targetMessageId: change.targetMessageId,
+      error: fetchError.message,
+    });
+    return;
+  }
+
+  if (!original) {
+    console.log(`[BAILEYS] ℹ️ Original message ${change.targetMessageId} not in message_log, ignoring ${change.kind}`);
+    return;
+  }
+
+  const metadata = original.metadata && typeof original.metadata === 'object' ? original.metadata : {};
+  const update = {};
+
+  if (change.kind === 'edited') {
+    update.message_text = change.text;
+    update.edited_at = change.changedAt;
+    update.metadata = {
+      ...metadata,
+      edited: true,
+      editHistory: [
+        ...(Array.isArray(metadata.editHistory) ? metadata.editHistory : []),
+        { text: original.message_text, replacedAt: change.changedAt },
+      ],
+    };
+  } else {
+    update.revoked_at = change.changedAt;
+    update.metadata = {
+      ...metadata,
+      revoked: true,
+      revokedBy: fromMe ? 'agent' : 'contact',
+    };
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('message_log')
+    .update(update)
+    .eq('id', original.id);
+
+  if (updateError) {
+    console.error('[BAILEYS][DB] ❌ Failed to apply message change', {
+      agentId,
+      targetMessageId: change.targetMessageId,
+      error: updateError.message,
+    });
+  }
+
+  // Group messages that were never forwarded (agent not addressed) stay internal
+  if (metadata.isGroup && !metadata.groupTrigger) {
+    return;
+  }
+
+  await forwardMessageToWebhook(agentId, {
+    id: msg?.key?.id,
+    event: `message.${change.kind}`,
+    messageId: change.targetMessageId,
+    from: fromMe ? agentNumber : contactNumber,
+    to: fromMe ? contactNumber : agentNumber,
+    conversationId: remoteJid,
+    messageType: change.kind === 'edited' ? 'EDIT' : 'REVOKE',
+    type: change.kind === 'edited' ? 'edit' : 'revoke',
+    content: change.text,
+    previousContent: original.message_text,
+    timestamp: change.changedAt,
+  }, { eventKey: msg?.key?.id ? `message.${change.kind}:${msg.key.id}` : null });
+}
+
+/**
+ * Quoted-reply context (customer swiped to reply on an earlier message).
+ * Returns { messageId, participant, fromAgent, text, messageType } or null.
+ */
+function extractQuotedContext(message, agentIdentities = []) {
+  const contextInfo = getMessageContextInfo(message);
+
+  if (!contextInfo?.stanzaId) {
+    return null;
+  }
+
+  const quotedMessage = contextInfo.quotedMessage || null;
+  const quotedMedia = quotedMessage ? getMediaMessageInfo(quotedMessage) : null;
+  const participantNumber = sanitizeNumberFromJid(contextInfo.participant);
+
+  return {
+    messageId: contextInfo.stanzaId,
+    participant: participantNumber || contextInfo.participant || null,
+    fromAgent: Boolean(participantNumber) && agentIdentities.includes(participantNumber),
+    text: quotedMessage ? getEditableText(quotedMessage) : null,
+    messageType: quotedMedia ? MEDIA_TYPE_CONFIG[quotedMedia.kind].messageType : 'TEXT',
+  };
+}
+
+async function applyOutboundStatus(agentId, key, status) {
+  if (!status) {
+    return;
+  }
+
+  try {
+    const updated = await messageStatusService.updateStatus(agentId, key.id, status);
+    if (!updated) {
+      return;
+    }
+
+    await forwardMessageToWebhook(agentId, {
+      id: key.id,
+      event: 'message.status',
+      messageId: key.id,
+      trackingId: updated.id,
+      to: sanitizeNumberFromJid(updated.remote_jid) || updated.remote_jid,
+      conversationId: updated.remote_jid,
+      messageType: 'STATUS',
+      type: 'status',
+      status: updated.status,
+      previousStatus: updated.previous_status,
+      timestamp: updated.updated_at,
+    }, { eventKey: `message.status:${key.id}:${updated.status}` });
+  } catch (error) {
+    console.error('[BAILEYS] ❌ Failed to apply outbound status update', {
+      messageId: key?.id,
+      status,
+      error: error.message,
+    });
+  }
+}
+
+function normalizeHistorySyncSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const days = Number(source.days);
+
+  return {
+    enabled: source.enabled === true,
+    days: Number.isFinite(days) && days > 0 ? Math.min(days, HISTORY_SYNC_MAX_DAYS) : HISTORY_SYNC_DEFAULT_DAYS,
+  };
+}
+
+// Builds a message_log row for a history-synced 1:1 message (text only; media is not downloaded)
+function buildHistoryRow({ agentId, userId, agentNumber, contactNumber, msg, cutoffSeconds }) {
+  const remoteJid = msg?.key?.remoteJid || '';
+  const messageId = msg?.key?.id;
+
+  if (!messageId || !msg.message || !(remoteJid.endsWith('@s.whatsapp.net') || remoteJid.endsWith('@lid'))) {
+    return null;
+  }
+
+  const timestampSeconds =
+    typeof msg.messageTimestamp === 'object' && typeof msg.messageTimestamp?.toNumber === 'function'
+      ? msg.messageTimestamp.toNumber()
+      : Number(msg.messageTimestamp);
+
+  if (!timestampSeconds || timestampSeconds < cutoffSeconds) {
+    return null;
+  }
+
+  const mediaInfo = getMediaMessageInfo(msg.message);
+  const text = getEditableText(msg.message);
+
+  if (!text && !mediaInfo) {
+    return null;
+  }
+
+  const fromMe = Boolean(msg.key.fromMe);
+  const timestampIso = new Date(timestampSeconds * 1000).toISOString();
+  const mediaNode = mediaInfo?.node;
+
+  return {
+    message_id: messageId,
+    agent_id: agentId,
+    user_id: userId,
+    conversation_id: remoteJid,
+    sender_phone: fromMe ? agentNumber : contactNumber,
+    message_text: text,
+    message_type: mediaInfo ? MEDIA_TYPE_CONFIG[mediaInfo.kind].messageType : 'TEXT',
+    media_url: null,
+    media_mimetype: mediaNode?.mimetype || null,
+    media_size: mediaNode?.fileLength ? Number(mediaNode.fileLength) : null,
+    direction: fromMe ? 'outgoing' : 'incoming',
+    source: 'history_sync',
+    metadata: {
+      platform: 'whatsapp',
+      phoneNumber: agentNumber,
+      direction: fromMe ? 'outgoing' : 'incoming',
+      remoteJid,
+      messageId,
+      ...(mediaNode?.fileName && { fileName: mediaNode.fileName }),
+    },
+    received_at: timestampIso,
+    created_at: timestampIso,
+  };
 }
 
-function getExtensionFromMime(mimetype) {
+/**
+ * Opt-in backfill of recent 1:1 history from messaging-history.set.
+ * Rows are flagged source=history_sync and are never forwarded to the webhook.
+ * Progress is emitted as 'history_sync' agent events for the connection panel.
+ */
+async function importHistoryMessages(agentId, sock, { messages, contacts, isLatest, progress }) {
+  const { data: agentData, error: agentError } = await supabaseAdmin
+    .from('agents')
+    .select('user_id, history_sync_settings')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  if (agentError || !agentData) {
+    console.error('[BAILEYS][HISTORY] ❌ Failed to load agent settings:', agentError?.message || 'not found');
+    return;
+  }
+
+  const settings = normalizeHistorySyncSettings(agentData.history_sync_settings);
+  if (!settings.enabled) {
+    return;
+  }
+
+  const agentNumber = sanitizeNumberFromJid(activeSessions.get(agentId)?.phoneNumber) || sanitizeNumberFromJid(sock?.user?.id);
+  const cutoffSeconds = Math.floor(Date.now() / 1000) - settings.days * 24 * 60 * 60;
+  // History contacts carry LID/PN pairs; learn them before resolving senders
+  await lidMappingService.rememberFromContacts(agentId, contacts || [], 'history_sync');
+
+  const rows = [];
+  for (const msg of messages || []) {
+    const remoteJid = msg?.key?.remoteJid;
+    const contactNumber =
+      (await lidMappingService.resolvePhoneNumber(agentId, remoteJid)) || sanitizeNumberFromJid(remoteJid) || remoteJid;
+    const row = buildHistoryRow({ agentId, userId: agentData.user_id, agentNumber, contactNumber, msg, cutoffSeconds });
+    if (row) {
+      rows.push(row);
+    }
+  }
+
+  const state = historySyncProgress.get(agentId) || { imported: 0, startedAt: new Date().toISOString() };
+  historySyncProgress.set(agentId, state);
+
+  for (let index = 0; index < rows.length; index += HISTORY_SYNC_BATCH_SIZE) {
+    const batch = rows.slice(index, index + HISTORY_SYNC_BATCH_SIZE);
+
+    const { data: inserted, error } = await supabaseAdmin
+      .from('message_log')
+      .upsert(batch, { onConflict: 'agent_id,message_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      console.error('[BAILEYS][HISTORY] ❌ Failed to import history batch:', error.message);
+      emitAgentEvent(agentId, 'history_sync', { status: 'error', imported: state.imported, error: error.message });
+      return;
+    }
+
+    state.imported += inserted?.length || 0;
+    emitAgentEvent(agentId, 'history_sync', { status: 'importing', imported: state.imported, progress: progress ?? null });
+  }
+
+  console.log(`[BAILEYS][HISTORY] 📚 Imported ${rows.length} of ${messages?.length || 0} synced messages (total ${state.imported})`);
+
+  if (isLatest || progress === 100) {
+    emitAgentEvent(agentId, 'history_sync', { status: 'completed', imported: state.imported, days: settings.days });
+    historySyncProgress.delete(agentId);
+  }
+}
+
+function getExtensionFromMime(mimetype, fallback = 'ogg') {
   if (!mimetype || typeof mimetype !== 'string') {
-    return 'ogg';
+    return fallback;
   }
 
   const mapping = {
@@ -202,21 +857,81 @@ function getExtensionFromMime(mimetype) {
     'audio/amr': 'amr',
     'audio/3gpp': '3gp',
     'audio/3gpp2': '3g2',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/mp4': 'mp4',
+    'video/3gpp': '3gp',
+    'video/quicktime': 'mov',
+    'application/pdf': 'pdf',
+    'application/msword': 'doc',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.ms-excel': 'xls',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'text/plain': 'txt',
+    'text/csv': 'csv',
+    'application/octet-stream': 'bin',
   };
 
-  return mapping[mimetype.toLowerCase()] || mimetype.split('/').pop() || 'ogg';
+  const normalized = mimetype.toLowerCase();
+  if (mapping[normalized]) {
+    return mapping[normalized];
+  }
+
+  const subtype = normalized.split(';')[0].split('/').pop();
+  return subtype && /^[a-z0-9.+-]+$/.test(subtype) ? subtype : fallback;
 }
 
-async function ensureAudioBucket() {
-  if (audioBucketChecked) {
-    return;
+// Returns the media kind ('audio' | 'image' | 'video' | 'document' | 'sticker') and its message node
+function getMediaMessageInfo(message) {
+  const content = unwrapMessageContent(message);
+  if (!content) {
+    return null;
+  }
+
+  // Documents sent with a caption arrive wrapped in documentWithCaptionMessage
+  const documentWithCaption = content.documentWithCaptionMessage?.message?.documentMessage;
+  if (documentWithCaption) {
+    return { kind: 'document', node: documentWithCaption };
+  }
+
+  for (const [kind, config] of Object.entries(MEDIA_TYPE_CONFIG)) {
+    if (content[config.messageKey]) {
+      return { kind, node: content[config.messageKey] };
+    }
+  }
+
+  return null;
+}
+
+function getMediaBucketName(kind) {
+  return mediaBucketNames.get(kind) || MEDIA_TYPE_CONFIG[kind].bucket;
+}
+
+function switchToFallbackBucket(kind) {
+  const bucketName = getMediaBucketName(kind);
+  if (bucketName === MEDIA_FALLBACK_BUCKET) {
+    return false;
+  }
+
+  console.warn(`[BAILEYS][STORAGE] ⚠️ Switching ${kind} media to fallback bucket:`, MEDIA_FALLBACK_BUCKET);
+  mediaBucketNames.set(kind, MEDIA_FALLBACK_BUCKET);
+  return true;
+}
+
+async function ensureMediaBucket(kind) {
+  const bucketName = getMediaBucketName(kind);
+
+  if (checkedMediaBuckets.has(bucketName)) {
+    return bucketName;
   }
 
   try {
     let bucketExists = false;
 
     if (typeof supabaseAdmin.storage.getBucket === 'function') {
-      const { data, error } = await supabaseAdmin.storage.getBucket(audioBucketName);
+      const { data, error } = await supabaseAdmin.storage.getBucket(bucketName);
       bucketExists = Boolean(data) && !error;
     }
 
@@ -226,62 +941,62 @@ async function ensureAudioBucket() {
         console.error('[BAILEYS][STORAGE] ❌ Failed to list buckets:', listError);
         throw listError;
       }
-      bucketExists = (buckets || []).some((bucket) => bucket.name === audioBucketName);
+      bucketExists = (buckets || []).some((bucket) => bucket.name === bucketName);
     }
 
     if (!bucketExists) {
-      console.log('[BAILEYS][STORAGE] 🎵 Creating audio bucket:', audioBucketName);
-      const { error: createError } = await supabaseAdmin.storage.createBucket(audioBucketName, {
+      console.log(`[BAILEYS][STORAGE] ${MEDIA_TYPE_CONFIG[kind].emoji} Creating ${kind} bucket:`, bucketName);
+      const { error: createError } = await supabaseAdmin.storage.createBucket(bucketName, {
         public: false,
+        fileSizeLimit: MEDIA_TYPE_CONFIG[kind].maxBytes,
       });
 
       if (createError && !createError.message?.toLowerCase().includes('already exists')) {
-        console.error('[BAILEYS][STORAGE] ❌ Failed to create audio bucket:', createError);
-        if (audioBucketName !== FALLBACK_AUDIO_BUCKET) {
-          console.warn(
-            '[BAILEYS][STORAGE] ⚠️ Falling back to existing bucket:',
-            FALLBACK_AUDIO_BUCKET
-          );
-          audioBucketName = FALLBACK_AUDIO_BUCKET;
-          audioBucketChecked = false;
-          return ensureAudioBucket();
+        console.error(`[BAILEYS][STORAGE] ❌ Failed to create ${kind} bucket:`, createError);
+        if (switchToFallbackBucket(kind)) {
+          return ensureMediaBucket(kind);
         }
         throw createError;
       }
     }
 
-    audioBucketChecked = true;
+    checkedMediaBuckets.add(bucketName);
+    return bucketName;
   } catch (error) {
-    console.error('[BAILEYS][STORAGE] ❌ Unable to ensure audio bucket:', error);
-    if (audioBucketName !== FALLBACK_AUDIO_BUCKET) {
-      console.warn('[BAILEYS][STORAGE] ⚠️ Switching to fallback bucket:', FALLBACK_AUDIO_BUCKET);
-      audioBucketName = FALLBACK_AUDIO_BUCKET;
-      audioBucketChecked = false;
-      await ensureAudioBucket();
-    } else {
-      throw error;
+    console.error(`[BAILEYS][STORAGE] ❌ Unable to ensure ${kind} bucket:`, error);
+    if (switchToFallbackBucket(kind)) {
+      return ensureMediaBucket(kind);
     }
+    throw error;
   }
 }
 
-async function saveAudioFile(buffer, agentId, messageId, mimetype = 'audio/ogg') {
-  await ensureAudioBucket();
+async function saveMediaFile(buffer, agentId, messageId, mimetype, kind = 'audio', fileName = null) {
+  const config = MEDIA_TYPE_CONFIG[kind];
+  const bucketName = await ensureMediaBucket(kind);
 
-  const extension = getExtensionFromMime(mimetype);
+  // Prefer the original document extension (invoice.pdf) over a mimetype guess
+  const fileNameExtension =
+    typeof fileName === 'string' && fileName.includes('.')
+      ? fileName.split('.').pop().toLowerCase().replace(/[^a-z0-9]/g, '')
+      : null;
+  const extension = fileNameExtension || getExtensionFromMime(mimetype, getExtensionFromMime(config.defaultMimetype));
   const normalizedAgentId = agentId.replace(/[^a-zA-Z0-9-_]/g, '');
   const baseFileName = `${Date.now()}-${messageId}`.replace(/[^a-zA-Z0-9-_]/g, '');
-  let storagePath = `${normalizedAgentId}/${baseFileName}.${extension}`;
+  // Shared fallback bucket keeps kinds apart by folder
+  const folder = bucketName === config.bucket ? normalizedAgentId : `${normalizedAgentId}/${kind}`;
+  let storagePath = `${folder}/${baseFileName}.${extension}`;
 
   const uploadOptions = {
     cacheControl: '3600',
     upsert: false,
-    contentType: mimetype,
+    contentType: mimetype || config.defaultMimetype,
   };
 
   let uploadError;
 
   try {
-    const { error } = await supabaseAdmin.storage.from(audioBucketName).upload(storagePath, buffer, uploadOptions);
+    const { error } = await supabaseAdmin.storage.from(bucketName).upload(storagePath, buffer, uploadOptions);
     uploadError = error;
   } catch (error) {
     uploadError = error;
@@ -290,16 +1005,16 @@ async function saveAudioFile(buffer, agentId, messageId, mimetype = 'audio/ogg')
   if (uploadError) {
     if (uploadError.message?.includes('exists')) {
       const uniqueSuffix = randomUUID().slice(0, 8);
-      storagePath = `${normalizedAgentId}/${baseFileName}-${uniqueSuffix}.${extension}`;
+      storagePath = `${folder}/${baseFileName}-${uniqueSuffix}.${extension}`;
       const { error: retryError } = await supabaseAdmin.storage
-        .from(audioBucketName)
+        .from(bucketName)
         .upload(storagePath, buffer, uploadOptions);
       if (retryError) {
-        console.error('[BAILEYS][STORAGE] ❌ Failed to upload audio after retry:', retryError);
+        console.error(`[BAILEYS][STORAGE] ❌ Failed to upload ${kind} after retry:`, retryError);
         throw retryError;
       }
     } else {
-      console.error('[BAILEYS][STORAGE] ❌ Failed to upload audio:', uploadError);
+      console.error(`[BAILEYS][STORAGE] ❌ Failed to upload ${kind}:`, uploadError);
       throw uploadError;
     }
   }
@@ -307,23 +1022,27 @@ async function saveAudioFile(buffer, agentId, messageId, mimetype = 'audio/ogg')
   let mediaUrl = null;
 
   try {
-    const ttl = Number(process.env.AUDIO_SIGNED_URL_TTL || DEFAULT_AUDIO_SIGNED_URL_TTL);
+    const ttl = Number(
+      process.env.MEDIA_SIGNED_URL_TTL || process.env.AUDIO_SIGNED_URL_TTL || DEFAULT_MEDIA_SIGNED_URL_TTL
+    );
     const { data, error } = await supabaseAdmin.storage
-      .from(audioBucketName)
+      .from(bucketName)
       .createSignedUrl(storagePath, ttl);
 
     if (error) {
       console.warn('[BAILEYS][STORAGE] ⚠️ Failed to create signed URL, attempting public URL fallback:', error);
-      const { data: publicData } = await supabaseAdmin.storage.from(audioBucketName).getPublicUrl(storagePath);
+      const { data: publicData } = await supabaseAdmin.storage.from(bucketName).getPublicUrl(storagePath);
       mediaUrl = publicData?.publicUrl || null;
     } else {
       mediaUrl = data?.signedUrl || null;
     }
   } catch (error) {
-    console.warn('[BAILEYS][STORAGE] ⚠️ Error generating audio URL:', error);
+    console.warn(`[BAILEYS][STORAGE] ⚠️ Error generating ${kind} URL:`, error);
   }
 
-  console.log('[BAILEYS][STORAGE] 🎵 Audio stored', {
+  console.log(`[BAILEYS][STORAGE] ${config.emoji} Media stored`, {
+    kind,
+    bucket: bucketName,
     storagePath,
     mimetype,
     bytes: buffer?.length || 0,
@@ -333,9 +1052,88 @@ async function saveAudioFile(buffer, agentId, messageId, mimetype = 'audio/ogg')
   return {
     url: mediaUrl,
     path: storagePath,
+    bucket: bucketName,
   };
 }
 
+/**
+ * Download an inbound media message, store it and transcribe voice notes.
+ * Only called for the delivery that inserted the message_log row, so a redelivered
+ * message is neither downloaded, stored nor transcribed again.
+ * Returns the media URL/size, the transcript and the metadata fields to merge into the row.
+ */
+async function storeIncomingMedia({ agentId, sock, msg, messageId, mediaInfo, mimetype, transcriptionSettings }) {
+  const { kind: mediaKind, node: mediaNode } = mediaInfo;
+  const mediaConfig = MEDIA_TYPE_CONFIG[mediaKind];
+  const result = { mediaUrl: null, mediaSize: null, transcript: null, metadata: {} };
+
+  try {
+    console.log(`[BAILEYS] ${mediaConfig.emoji} Downloading ${mediaKind} message:`, { messageId, mimetype });
+    const messageForDownload = {
+      ...msg,
+      message: {
+        [mediaConfig.messageKey]: mediaNode,
+      },
+    };
+
+    const mediaBuffer = await downloadMediaMessage(messageForDownload, 'buffer', {}, {
+      logger: pino({ level: 'error' }),
+      reuploadRequest: sock.updateMediaMessage,
+    });
+
+    if (mediaBuffer && mediaBuffer.length > mediaConfig.maxBytes) {
+      result.mediaSize = mediaBuffer.length;
+      result.metadata.mediaSize = result.mediaSize;
+      result.metadata.mediaSkippedReason = 'size_limit';
+      console.warn(`[BAILEYS] ⚠️ ${mediaKind} exceeds size limit after download, not storing`, {
+        messageId,
+        bytes: result.mediaSize,
+        maxBytes: mediaConfig.maxBytes,
+      });
+    } else if (mediaBuffer) {
+      result.mediaSize = mediaBuffer.length;
+      result.metadata.mediaSize = result.mediaSize;
+      const { url, path: storagePath, bucket } = await saveMediaFile(
+        mediaBuffer,
+        agentId,
+        messageId,
+        mimetype,
+        mediaKind,
+        mediaNode?.fileName
+      );
+      result.mediaUrl = url;
+      result.metadata.storagePath = storagePath;
+      result.metadata.storageBucket = bucket;
+      console.log(`[BAILEYS] ${mediaConfig.emoji} ${mediaKind} message processed`, { messageId, mediaUrl: url });
+
+      if (mediaKind === 'audio') {
+        const transcription = await transcribeAudio({
+          buffer: mediaBuffer,
+          mimetype,
+          durationSeconds: mediaNode?.seconds,
+          settings: transcriptionSettings,
+        });
+
+        if (transcription.transcript) {
+          result.transcript = transcription.transcript;
+          result.metadata.transcript = transcription.transcript;
+          console.log('[BAILEYS] 🎙️ Voice note transcribed', { messageId, chars: transcription.transcript.text.length });
+        } else if (transcription.skippedReason && transcription.skippedReason !== 'no_provider') {
+          result.metadata.transcriptSkippedReason = transcription.skippedReason;
+        } else if (transcription.error) {
+          result.metadata.transcriptError = transcription.error;
+        }
+      }
+    } else {
+      console.warn(`[BAILEYS] ⚠️ ${mediaKind} buffer empty after download`, { messageId });
+    }
+  } catch (error) {
+    console.error(`[BAILEYS] ❌ Failed to process ${mediaKind} message`, { messageId, error: error.message });
+  }
+
+  return result;
+}
+
 // Sync credentials from files to database
 // Called after every creds.update event to ensure database has latest credentials
 async function syncCredsToDatabase(agentId) {
@@ -1444,21 +2242,28 @@ async function initializeWhatsApp(agentId, userId = null) {
       }
 
       // CRITICAL: Fetch user_id from agents table for message_log insertion
+      // Group chat settings are loaded in the same query (opt-in per agent)
       let userIdForMessage = userId;
-      if (!userIdForMessage) {
-        try {
-          const { data: agentData } = await supabaseAdmin
-            .from('agents')
-            .select('user_id')
-            .eq('id', agentId)
-            .single();
-          if (agentData) {
+      let groupChatSettings = normalizeGroupChatSettings(null);
+      let transcriptionSettings = null;
+      let consentSettings = consentService.normalizeConsentSettings(null);
+      try {
+        const { data: agentData } = await supabaseAdmin
+          .from('agents')
+          .select('user_id, group_chat_settings, transcription_settings, consent_settings')
+          .eq('id', agentId)
+          .single();
+        if (agentData) {
+          if (!userIdForMessage) {
             userIdForMessage = agentData.user_id;
             console.log(`[BAILEYS] ✅ Fetched user_id for message logging: ${userIdForMessage}`);
           }
-        } catch (error) {
-          console.error(`[BAILEYS] ❌ Failed to fetch user_id for agent:`, error.message);
+          groupChatSettings = normalizeGroupChatSettings(agentData.group_chat_settings);
+          transcriptionSettings = agentData.transcription_settings;
+          consentSettings = consentService.normalizeConsentSettings(agentData.consent_settings);
         }
+      } catch (error) {
+        console.error(`[BAILEYS] ❌ Failed to fetch agent config for message logging:`, error.message);
       }
 
       const session = activeSessions.get(agentId);
@@ -1466,6 +2271,8 @@ async function initializeWhatsApp(agentId, userId = null) {
         sanitizeNumberFromJid(session?.phoneNumber) ||
         sanitizeNumberFromJid(sock?.user?.id) ||
         null;
+      // Identities used to detect @-mentions and replies to the agent in groups
+      const agentIdentities = [agentNumber, sanitizeNumberFromJid(sock?.user?.lid)].filter(Boolean);
 
       // CRITICAL: Skip messages during initial connection phase
       // If the session is not fully connected yet, these are likely connection/sync messages
@@ -1482,8 +2289,8 @@ async function initializeWhatsApp(agentId, userId = null) {
           return false;
         }
 
-        if (remoteJid.endsWith('@g.us')) {
-          console.log('[BAILEYS] 🚫 Skipping group message from:', remoteJid);
+        if (isGroupJid(remoteJid) && !groupChatSettings.enabled) {
+          console.log('[BAILEYS] 🚫 Skipping group message (group mode disabled) from:', remoteJid);
           return false;
         }
 
@@ -1502,7 +2309,7 @@ async function initializeWhatsApp(agentId, userId = null) {
           return false;
         }
 
-        if (!remoteJid.endsWith('@s.whatsapp.net') && !remoteJid.endsWith('@lid')) {
+        if (!remoteJid.endsWith('@s.whatsapp.net') && !remoteJid.endsWith('@lid') && !isGroupJid(remoteJid)) {
           console.log('[BAILEYS] 🚫 Skipping unsupported JID type:', remoteJid);
           return false;
         }
@@ -1520,9 +2327,6 @@ async function initializeWhatsApp(agentId, userId = null) {
           'senderKeyDistributionMessage',
           'deviceSentMessage',
           'messageContextInfo',
-          'reactionMessage',
-          'pollCreationMessage',
-          'pollUpdateMessage',
         ];
         
         const messageKeys = Object.keys(message.message || {});
@@ -1541,6 +2345,28 @@ async function initializeWhatsApp(agentId, userId = null) {
       };
 
       for (const msg of messages) {
+        // Edits and revokes are protocol messages; handle them before the protocol filter drops them
+        const messageChange = getMessageChange(msg?.message);
+        if (messageChange) {
+          const changeJid = msg?.key?.remoteJid || '';
+          const isSupportedChat =
+            changeJid.endsWith('@s.whatsapp.net') ||
+            changeJid.endsWith('@lid') ||
+            (isGroupJid(changeJid) && groupChatSettings.enabled);
+
+          if (isSupportedChat) {
+            try {
+              await handleMessageChange({ agentId, msg, change: messageChange, agentNumber });
+            } catch (error) {
+              console.error('[BAILEYS] ❌ Failed to handle message change', {
+                messageId: msg?.key?.id,
+                error: error.message,
+              });
+            }
+          }
+          continue;
+        }
+
         if (!shouldProcessMessage(msg)) {
           continue;
         }
@@ -1559,9 +2385,29 @@ async function initializeWhatsApp(agentId, userId = null) {
           msg?.message?.ephemeralMessage?.message?.conversation?.contextInfo?.participant ||
           null;
 
-        const contactCandidateJid = fromMe ? participantJid || remoteJid : remoteJid;
+        // In groups the remoteJid is the group itself; the sender is key.participant
+        const isGroup = isGroupJid(remoteJid);
+        const groupParticipantJid = isGroup ? msg?.key?.participant || msg?.participant || null : null;
+
+        let contactCandidateJid = fromMe ? participantJid || remoteJid : remoteJid;
+        if (isGroup) {
+          contactCandidateJid = fromMe ? remoteJid : groupParticipantJid || remoteJid;
+        }
 
-        const contactNumber = sanitizeNumberFromJid(contactCandidateJid);
+        // Customers routed through a LID are resolved to their phone number when the mapping is known
+        await lidMappingService.rememberFromMessageKey(agentId, msg.key);
+        const resolvedContactNumber = await lidMappingService.resolvePhoneNumber(agentId, contactCandidateJid);
+        const contactNumber = resolvedContactNumber || sanitizeNumberFromJid(contactCandidateJid);
+        const unresolvedLid = contactCandidateJid?.endsWith('@lid') && !resolvedContactNumber
+          ? contactCandidateJid
+          : null;
+        if (!fromMe && msg.key) {
+          // Replies are addressed to the phone JID when known, so index the key under both
+          rememberInboundKey(agentId, [
+            remoteJid,
+            !isGroup && resolvedContactNumber ? `${resolvedContactNumber}@s.whatsapp.net` : null,
+          ], msg.key);
+        }
         const fromNumber = fromMe ? agentNumber : contactNumber;
         const toNumber = fromMe ? contactNumber : agentNumber;
 
@@ -1578,6 +2424,9 @@ async function initializeWhatsApp(agentId, userId = null) {
             messageText = `[Video] ${msg.message.videoMessage.caption}`;
           } else if (msg.message.documentMessage?.caption) {
             messageText = `[Document] ${msg.message.documentMessage.caption}`;
+          } else if (msg.message.documentWithCaptionMessage?.message?.documentMessage) {
+            const captionedDocument = msg.message.documentWithCaptionMessage.message.documentMessage;
+            messageText = `[Document] ${captionedDocument.caption || captionedDocument.fileName || ''}`.trim();
           } else if (msg.message.audioMessage) {
             messageText = '[Audio/Voice Message]';
           } else if (msg.message.stickerMessage) {
@@ -1590,8 +2439,16 @@ async function initializeWhatsApp(agentId, userId = null) {
             messageText = '[Document]';
           } else if (msg.message.contactMessage) {
             messageText = `[Contact: ${msg.message.contactMessage.displayName || 'Unknown'}]`;
-          } else if (msg.message.locationMessage) {
+          } else if (msg.message.contactsArrayMessage) {
+            messageText = `[Contacts: ${msg.message.contactsArrayMessage.displayName || 'Unknown'}]`;
+          } else if (msg.message.locationMessage || msg.message.liveLocationMessage) {
             messageText = '[Location]';
+          } else if (msg.message.reactionMessage) {
+            messageText = `[Reaction: ${msg.message.reactionMessage.text || 'removed'}]`;
+          } else if (msg.message.pollUpdateMessage) {
+            messageText = '[Poll vote]';
+          } else if (getPollCreationMessage(msg.message)) {
+            messageText = `[Poll: ${getPollCreationMessage(msg.message).name || 'Untitled'}]`;
           } else {
             messageText = `[Unknown message type: ${Object.keys(msg.message).join(', ')}]`;
           }
@@ -1615,9 +2472,6 @@ async function initializeWhatsApp(agentId, userId = null) {
           'senderKeyDistributionMessage',
           'deviceSentMessage',
           'messageContextInfo',
-          'reactionMessage',
-          'pollCreationMessage',
-          'pollUpdateMessage',
         ];
 
         const isSystemMessage = systemMessagePatterns.some(pattern => 
@@ -1633,16 +2487,15 @@ async function initializeWhatsApp(agentId, userId = null) {
 
         // CRITICAL: Skip messages from WhatsApp system (status@broadcast, etc.)
         // These are typically status updates, system notifications, etc.
-        if (remoteJid.includes('status') || 
-            remoteJid.includes('broadcast') || 
-            remoteJid.includes('@g.us') ||
-            remoteJid.includes('newsletter') ||
-            remoteJid.includes('@lid') && !remoteJid.includes('@s.whatsapp.net')) {
+        if (remoteJid.includes('status') ||
+            remoteJid.includes('broadcast') ||
+            (isGroup && !groupChatSettings.enabled) ||
+            remoteJid.includes('newsletter')) {
           console.log(`[BAILEYS] 🚫 Skipping system/status message from: ${remoteJid}`);
           continue;
         }
 
-        console.log(`[BAILEYS] ✅ Processing individual message ${participant} ${remoteJid}`);
+        console.log(`[BAILEYS] ✅ Processing ${isGroup ? 'group' : 'individual'} message ${participant} ${remoteJid}`);
         console.log(`[BAILEYS] Message: ${messageText}`);
         console.log(`[BAILEYS] Message ID: ${messageId}`);
         if (msg.messageTimestamp) {
@@ -1656,6 +2509,8 @@ async function initializeWhatsApp(agentId, userId = null) {
           effectiveMessage?.extendedTextMessage?.text ||
           effectiveMessage?.imageMessage?.caption ||
           effectiveMessage?.videoMessage?.caption ||
+          effectiveMessage?.documentMessage?.caption ||
+          effectiveMessage?.documentWithCaptionMessage?.message?.documentMessage?.caption ||
           effectiveMessage?.buttonsResponseMessage?.selectedDisplayText ||
           effectiveMessage?.listResponseMessage?.title ||
           effectiveMessage?.templateButtonReplyMessage?.selectedDisplayText ||
@@ -1675,58 +2530,130 @@ async function initializeWhatsApp(agentId, userId = null) {
         let mediaUrl = null;
         let mediaMimetype = null;
         let mediaSize = null;
+        let transcript = null;
         const messageMetadata = {
           platform: 'whatsapp',
           phoneNumber: agentNumber,
             direction: fromMe ? 'outgoing' : 'incoming',
           remoteJid,
           messageId,
+          ...(unresolvedLid && { unresolvedLid }),
         };
 
-        const wrappedAudioMessage = unwrapMessageContent(msg.message)?.audioMessage;
+        let groupSubject = null;
+        let groupTrigger = null;
+
+        if (isGroup) {
+          groupSubject = await getGroupSubject(agentId, sock, remoteJid);
+          groupTrigger = fromMe
+            ? null
+            : detectGroupTrigger({
+              contextInfo: getMessageContextInfo(msg.message),
+              text: textContent,
+              agentIdentities,
+              settings: groupChatSettings,
+            });
 
-        if (wrappedAudioMessage) {
-          messageType = 'AUDIO';
-          const audioMessage = wrappedAudioMessage;
-          mediaMimetype = audioMessage?.mimetype || 'audio/ogg';
+          messageMetadata.isGroup = true;
+          messageMetadata.groupId = remoteJid;
+          messageMetadata.groupName = groupSubject;
+          messageMetadata.participant = groupParticipantJid;
+          messageMetadata.groupTrigger = groupTrigger;
+        }
+
+        const mediaInfo = getMediaMessageInfo(msg.message);
+        let shouldDownloadMedia = false;
 
-          if (typeof audioMessage?.seconds === 'number') {
-            messageMetadata.durationSeconds = audioMessage.seconds;
+        if (mediaInfo) {
+          const { kind: mediaKind, node: mediaNode } = mediaInfo;
+          const mediaConfig = MEDIA_TYPE_CONFIG[mediaKind];
+          messageType = mediaConfig.messageType;
+          mediaMimetype = mediaNode?.mimetype || mediaConfig.defaultMimetype;
+          messageMetadata.mediaKind = mediaKind;
+
+          if (typeof mediaNode?.seconds === 'number') {
+            messageMetadata.durationSeconds = mediaNode.seconds;
           }
 
-          if (audioMessage?.ptt) {
+          if (mediaNode?.ptt) {
             messageMetadata.isPtt = true;
           }
 
-          try {
-            console.log('[BAILEYS] 🎵 Downloading audio message:', { messageId, mediaMimetype });
-            const messageForDownload = {
-              ...msg,
-              message: {
-                audioMessage,
-              },
-            };
-
-            const audioBuffer = await downloadMediaMessage(messageForDownload, 'buffer', {}, {
-              logger: pino({ level: 'error' }),
-              reuploadRequest: sock.updateMediaMessage,
+          if (mediaNode?.fileName) {
+            messageMetadata.fileName = mediaNode.fileName;
+          }
+
+          if (mediaNode?.width && mediaNode?.height) {
+            messageMetadata.width = mediaNode.width;
+            messageMetadata.height = mediaNode.height;
+          }
+
+          if (mediaNode?.isAnimated) {
+            messageMetadata.isAnimated = true;
+          }
+
+          // fileLength is a Long in Baileys; check it before downloading to avoid buffering oversized files
+          const declaredSize = mediaNode?.fileLength ? Number(mediaNode.fileLength) : null;
+
+          if (declaredSize && declaredSize > mediaConfig.maxBytes) {
+            mediaSize = declaredSize;
+            messageMetadata.mediaSize = declaredSize;
+            messageMetadata.mediaSkippedReason = 'size_limit';
+            console.warn(`[BAILEYS] ⚠️ ${mediaKind} exceeds size limit, not downloading`, {
+              messageId,
+              declaredSize,
+              maxBytes: mediaConfig.maxBytes,
             });
+          } else {
+            // Downloaded once the message_log row has been claimed below
+            shouldDownloadMedia = true;
+          }
 
-            if (audioBuffer) {
-              mediaSize = audioBuffer.length;
-              messageMetadata.mediaSize = mediaSize;
-              const { url, path: storagePath } = await saveAudioFile(audioBuffer, agentId, messageId, mediaMimetype);
-              mediaUrl = url;
-              messageMetadata.storagePath = storagePath;
-              console.log('[BAILEYS] 🎵 Audio message processed', { messageId, mediaUrl });
-        } else {
-              console.warn('[BAILEYS] ⚠️ Audio buffer empty after download', { messageId });
+          // Captions travel as content; voice notes carry their transcript instead (set after download)
+          content = mediaNode?.caption || null;
+          if (mediaNode?.caption) {
+            messageMetadata.caption = mediaNode.caption;
+          }
+        }
+
+        const quotedContext = extractQuotedContext(msg.message, agentIdentities);
+        if (quotedContext) {
+          // Quoted media without a caption has no text in the stanza; fall back to what we logged
+          if (!quotedContext.text) {
+            const { data: quotedRow } = await supabaseAdmin
+              .from('message_log')
+              .select('message_text, message_type')
+              .eq('agent_id', agentId)
+              .eq('message_id', quotedContext.messageId)
+              .limit(1)
+              .maybeSingle();
+
+            if (quotedRow) {
+              quotedContext.text = quotedRow.message_text || null;
+              quotedContext.messageType = quotedRow.message_type || quotedContext.messageType;
             }
-          } catch (error) {
-            console.error('[BAILEYS] ❌ Failed to process audio message', { messageId, error: error.message });
           }
 
-          content = null;
+          const quotedParticipantJid = getMessageContextInfo(msg.message)?.participant;
+          if (quotedParticipantJid?.endsWith('@lid') && !quotedContext.fromAgent) {
+            quotedContext.participant =
+              (await lidMappingService.resolvePhoneNumber(agentId, quotedParticipantJid)) || quotedContext.participant;
+          }
+
+          messageMetadata.quoted = quotedContext;
+        }
+
+        // Location, contact cards, reactions and polls carry typed payloads instead of text
+        const structuredMessage = mediaInfo ? null : await extractStructuredMessage({ agentId, sock, msg });
+
+        if (structuredMessage) {
+          messageType = structuredMessage.messageType;
+          content = structuredMessage.content;
+          Object.assign(messageMetadata, structuredMessage.data);
+
+          if (structuredMessage.pollEncKey) {
+            messageMetadata.pollEncKey = structuredMessage.pollEncKey;
+          }
         }
 
         const sanitizedFromNumber =
@@ -1738,10 +2665,83 @@ async function initializeWhatsApp(agentId, userId = null) {
             ? toNumber
             : sanitizeNumberFromJid(fromMe ? remoteJid : agentNumber) || (fromMe ? remoteJid : agentNumber);
 
-        const cleanedMetadata = Object.fromEntries(
+        const cleanMetadata = () => Object.fromEntries(
           Object.entries(messageMetadata).filter(([, value]) => value !== undefined && value !== null)
         );
 
+        // Built before the claim (see forward_payload) and again once media is stored
+        const buildWebhookPayload = () => {
+          // The poll encryption key is only needed to decrypt votes; keep it out of the webhook
+          const webhookMetadata = cleanMetadata();
+          delete webhookMetadata.pollEncKey;
+
+          const payload = {
+            id: messageId,
+            messageId,
+            from: sanitizedFromNumber || remoteJid,
+            to: sanitizedToNumber,
+            conversationId: remoteJid,
+            messageType,
+            type: messageType.toLowerCase(),
+            content: content || null,
+            mediaUrl,
+            mimetype: mediaMimetype || null,
+            mediaSize,
+            caption: mediaInfo && !transcript ? content || null : null,
+            transcript: transcript?.text || null,
+            fileName: messageMetadata.fileName || null,
+            timestamp: timestampIso,
+            metadata: webhookMetadata,
+            quoted: quotedContext,
+            ...(structuredMessage && structuredMessage.data),
+            ...(isGroup && {
+              isGroup: true,
+              groupId: remoteJid,
+              groupName: groupSubject,
+              participant: groupParticipantJid,
+            }),
+          };
+
+          if (typeof payload.from === 'string' && payload.from.includes('@')) {
+            payload.from = sanitizeNumberFromJid(payload.from) || payload.from;
+          }
+
+          if (typeof payload.to === 'string' && payload.to.includes('@')) {
+            payload.to = sanitizeNumberFromJid(payload.to) || payload.to;
+          }
+
+          return payload;
+        };
+
+        const hasForwardableContent = () =>
+          (messageType === 'TEXT' && Boolean(content)) ||
+          (Boolean(mediaInfo) && (Boolean(mediaUrl) || Boolean(content))) ||
+          Boolean(structuredMessage);
+
+        // Opt-out/opt-in keywords are consumed here, and opted-out senders are not answered by the workflow
+        let consentBlocked = false;
+        const consentAction = !fromMe && !isGroup && messageType === 'TEXT'
+          ? consentService.matchConsentKeyword(content, consentSettings)
+          : null;
+        if (consentAction) {
+          consentBlocked = true;
+        } else if (!fromMe && !isGroup) {
+          try {
+            consentBlocked = await consentService.isNumberSuppressed(agentId, sanitizedFromNumber);
+          } catch (error) {
+            console.error('[CONSENT] ❌ Failed to check suppression for incoming message', { messageId, error: error.message });
+          }
+        }
+
+        // Group messages are always logged, but only forwarded when the agent is addressed
+        const forwardAllowed = !consentBlocked && (!isGroup || Boolean(groupTrigger));
+
+        // The event rides along with the log row until it is in the outbox, so a message that is
+        // logged but never enqueued (crash, outbox write failure) is still picked up by the outbox worker
+        const pendingForwardPayload = forwardAllowed && (hasForwardableContent() || shouldDownloadMedia)
+          ? buildWebhookPayload()
+          : null;
+
         const dbPayload = {
           message_id: messageId,
           agent_id: agentId, // CRITICAL: Include agent_id
@@ -1750,17 +2750,37 @@ async function initializeWhatsApp(agentId, userId = null) {
           sender_phone: sanitizedFromNumber,
           message_text: content,
           message_type: messageType,
+          direction: fromMe ? 'outgoing' : 'incoming',
           media_url: mediaUrl,
           media_mimetype: mediaMimetype,
           media_size: mediaSize,
-          metadata: cleanedMetadata,
+          metadata: cleanMetadata(),
           received_at: timestampIso,
           created_at: timestampIso,
+          forward_payload: pendingForwardPayload,
+          forward_pending_at: pendingForwardPayload ? new Date().toISOString() : null,
+          ...(isGroup && {
+            participant_jid: groupParticipantJid,
+            group_subject: groupSubject,
+          }),
         };
 
+        let isFirstDelivery = false;
+        let logFailed = false;
+
         try {
-          const { error: insertError } = await supabaseAdmin.from('message_log').insert(dbPayload);
+          // Redeliveries hit the (agent_id, message_id) constraint and are left untouched,
+          // so edits/revokes already applied to the row are not overwritten
+          const { data: insertedRows, error: insertError } = await supabaseAdmin
+            .from('message_log')
+            .upsert(dbPayload, { onConflict: 'agent_id,message_id', ignoreDuplicates: true })
+            .select('id');
+          if (!insertError && (!insertedRows || insertedRows.length === 0)) {
+            console.log(`[BAILEYS] ♻️ Duplicate delivery of ${messageId}, already in message_log`);
+          }
+          isFirstDelivery = !insertError && insertedRows?.length > 0;
           if (insertError) {
+            logFailed = true;
             console.error('[BAILEYS][DB] ❌ Failed to insert chat message', {
               messageId,
               agentId,
@@ -1768,6 +2788,7 @@ async function initializeWhatsApp(agentId, userId = null) {
             });
           }
         } catch (error) {
+          logFailed = true;
           console.error('[BAILEYS][DB] ❌ Unexpected error inserting chat message', {
             messageId,
             agentId,
@@ -1775,41 +2796,134 @@ async function initializeWhatsApp(agentId, userId = null) {
           });
         }
 
-        const webhookPayload = {
-          id: messageId,
-          messageId,
-          from: sanitizedFromNumber || remoteJid,
-          to: sanitizedToNumber,
-          conversationId: remoteJid,
-          messageType,
-          type: messageType.toLowerCase(),
-          content: content || null,
-          mediaUrl,
-          mimetype: mediaMimetype || null,
-          timestamp: timestampIso,
-          metadata: cleanedMetadata,
-        };
-
-        if (typeof webhookPayload.from === 'string' && webhookPayload.from.includes('@')) {
-          webhookPayload.from = sanitizeNumberFromJid(webhookPayload.from) || webhookPayload.from;
+        // Media is downloaded, stored and transcribed only by the delivery that inserted the row
+        if (shouldDownloadMedia && isFirstDelivery) {
+          const storedMedia = await storeIncomingMedia({
+            agentId,
+            sock,
+            msg,
+            messageId,
+            mediaInfo,
+            mimetype: mediaMimetype,
+            transcriptionSettings,
+          });
+          mediaUrl = storedMedia.mediaUrl;
+          mediaSize = storedMedia.mediaSize;
+          transcript = storedMedia.transcript;
+          Object.assign(messageMetadata, storedMedia.metadata);
+          content = mediaInfo.node?.caption || transcript?.text || null;
+
+          const completeForwardPayload = forwardAllowed && hasForwardableContent() ? buildWebhookPayload() : null;
+          const { error: mediaUpdateError } = await supabaseAdmin
+            .from('message_log')
+            .update({
+              message_text: content,
+              media_url: mediaUrl,
+              media_size: mediaSize,
+              metadata: cleanMetadata(),
+              forward_payload: completeForwardPayload,
+              ...(!completeForwardPayload && { forward_pending_at: null }),
+            })
+            .eq('agent_id', agentId)
+            .eq('message_id', messageId);
+          if (mediaUpdateError) {
+            console.error('[BAILEYS][DB] ❌ Failed to store media on chat message', {
+              messageId,
+              agentId,
+              error: mediaUpdateError.message,
+            });
+          }
         }
 
-        if (typeof webhookPayload.to === 'string' && webhookPayload.to.includes('@')) {
-          webhookPayload.to = sanitizeNumberFromJid(webhookPayload.to) || webhookPayload.to;
+        const shouldForward = forwardAllowed && hasForwardableContent();
+
+        // Redeliveries must not re-trigger the confirmation reply
+        if (consentAction && isFirstDelivery) {
+          try {
+            await handleConsentKeyword(agentId, sanitizedFromNumber, consentAction, consentSettings, content);
+          } catch (error) {
+            console.error('[CONSENT] ❌ Failed to process consent keyword', { messageId, error: error.message });
+          }
         }
 
-        const shouldForward =
-          (messageType === 'TEXT' && Boolean(content)) ||
-          (messageType === 'AUDIO' && Boolean(mediaUrl));
+        if (!isFirstDelivery && !logFailed) {
+          // Forwarded by the first delivery, or picked up from forward_payload by the outbox worker
+          continue;
+        }
 
         if (shouldForward) {
-          await forwardMessageToWebhook(agentId, webhookPayload);
+          // A logged message keeps forward_payload for the outbox worker; a direct attempt would duplicate it
+          await forwardMessageToWebhook(agentId, buildWebhookPayload(), {
+            eventKey: `message:${messageId}`,
+            messageId,
+            directFallback: logFailed,
+          });
+        } else if (consentBlocked) {
+          console.log('[CONSENT] ℹ️ Message logged but not forwarded (consent keyword or opted-out sender)');
+        } else if (isGroup && hasForwardableContent()) {
+          console.log('[BAILEYS] ℹ️ Group message logged but not forwarded (agent not mentioned, replied to, or keyword-matched)');
         } else {
           console.log('[BAILEYS] ℹ️ Skipping webhook forwarding (no content or media)');
         }
       }
+      console.log(`[BAILEYS] ========== END MESSAGES ==========`);
+    });
+
+    // Outbound delivery tracking: server ack / delivered / read
+    sock.ev.on('messages.update', async (updates) => {
+      for (const { key, update } of updates || []) {
+        if (!key?.fromMe || update?.status === undefined || update?.status === null) {
+          continue;
+        }
+
+        await applyOutboundStatus(agentId, key, messageStatusService.fromWhatsAppStatus(update.status));
+      }
+    });
+
+    // Per-recipient receipts (groups, and some 1:1 read receipts)
+    sock.ev.on('message-receipt.update', async (receipts) => {
+      for (const { key, receipt } of receipts || []) {
+        if (!key?.fromMe) {
+          continue;
+        }
+
+        await applyOutboundStatus(agentId, key, messageStatusService.fromReceipt(receipt));
+      }
+    });
+
+    // Opt-in history backfill (messages only; chats/contacts are not persisted)
+    sock.ev.on('messaging-history.set', async ({ messages, contacts, isLatest, progress }) => {
+      try {
+        await importHistoryMessages(agentId, sock, { messages, contacts, isLatest, progress });
+      } catch (error) {
+        console.error('[BAILEYS][HISTORY] ❌ History import failed:', error.message);
+        emitAgentEvent(agentId, 'history_sync', { status: 'error', error: error.message });
+      }
+    });
 
-      console.log(`[BAILEYS] ========== END MESSAGES ==========`); 
+    // LID <-> phone number mappings
+    sock.ev.on('contacts.upsert', async (contacts) => {
+      await lidMappingService.rememberFromContacts(agentId, contacts, 'contacts');
+    });
+
+    sock.ev.on('contacts.update', async (contacts) => {
+      await lidMappingService.rememberFromContacts(agentId, contacts, 'contacts');
+    });
+
+    sock.ev.on('chats.phoneNumberShare', async ({ lid, jid }) => {
+      await lidMappingService.remember(agentId, lid, jid, 'phone_number_share');
+    });
+
+    // Keep cached group subjects fresh when a group is renamed
+    sock.ev.on('groups.update', (updates) => {
+      for (const update of updates || []) {
+        if (update?.id && typeof update.subject === 'string') {
+          groupSubjectCache.set(`${agentId}:${update.id}`, {
+            subject: update.subject,
+            fetchedAt: Date.now(),
+          });
+        }
+      }
     });
 
     console.log(`[BAILEYS] ==================== INIT COMPLETE ====================\n`);
@@ -2138,18 +3252,392 @@ async function getWhatsAppStatus(agentId) {
   }
 }
 
+function normalizeHumanizeSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const minDelay = Number(source.minDelaySeconds);
+  const maxDelay = Number(source.maxDelaySeconds);
+  const minDelaySeconds = Math.min(
+    HUMANIZE_MAX_DELAY_SECONDS,
+    Number.isFinite(minDelay) && minDelay >= 0 ? minDelay : 1
+  );
+  const maxDelaySeconds = Number.isFinite(maxDelay) && maxDelay >= minDelaySeconds ? maxDelay : Math.max(minDelaySeconds, 8);
+
+  return {
+    enabled: source.enabled === true,
+    minDelaySeconds,
+    // Settings saved before the cap may still hold up to 60 seconds
+    maxDelaySeconds: Math.min(HUMANIZE_MAX_DELAY_SECONDS, maxDelaySeconds),
+  };
+}
+
+// Remember the newest inbound message per chat so humanized replies can mark it read
+function rememberInboundKey(agentId, chatJids, key) {
+  for (const chatJid of chatJids) {
+    if (!chatJid) {
+      continue;
+    }
+    const cacheKey = `${agentId}:${chatJid}`;
+    lastInboundKeys.delete(cacheKey);
+    if (lastInboundKeys.size >= LAST_INBOUND_KEYS_MAX) {
+      lastInboundKeys.delete(lastInboundKeys.keys().next().value);
+    }
+    lastInboundKeys.set(cacheKey, key);
+  }
+}
+
+async function findLastInboundKey(agentId, jid) {
+  const cached = lastInboundKeys.get(`${agentId}:${jid}`);
+  if (cached) {
+    return cached;
+  }
+
+  // After a restart the cache is empty; fall back to the latest logged inbound message
+  const { data } = await supabaseAdmin
+    .from('message_log')
+    .select('message_id, conversation_id, participant_jid')
+    .eq('agent_id', agentId)
+    .eq('conversation_id', jid)
+    .eq('direction', 'incoming')
+    .order('received_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data
+    ? { remoteJid: data.conversation_id, id: data.message_id, fromMe: false, participant: data.participant_jid || undefined }
+    : null;
+}
+
+/**
+ * Human-like pacing before a send: mark the chat read, then show "composing"
+ * (or "recording" for voice notes) for a time proportional to the message length.
+ * Failures here never block the send itself.
+ */
+async function humanizeBeforeSend(agentId, socket, jid, { text, isVoiceNote, settings }) {
+  try {
+    const lastInboundKey = await findLastInboundKey(agentId, jid);
+    if (lastInboundKey) {
+      await socket.readMessages([lastInboundKey]);
+    }
+
+    const typingMs = (text || '').length * HUMANIZE_MS_PER_CHAR * (0.8 + Math.random() * 0.4);
+    const delayMs = Math.min(
+      settings.maxDelaySeconds * 1000,
+      Math.max(settings.minDelaySeconds * 1000, typingMs)
+    );
+    const presence = isVoiceNote ? 'recording' : 'composing';
+
+    await socket.presenceSubscribe(jid).catch(() => {});
+
+    let remainingMs = delayMs;
+    while (remainingMs > 0) {
+      await socket.sendPresenceUpdate(presence, jid);
+      const stepMs = Math.min(remainingMs, HUMANIZE_PRESENCE_REFRESH_MS);
+      await new Promise((resolve) => setTimeout(resolve, stepMs));
+      remainingMs -= stepMs;
+    }
+
+    await socket.sendPresenceUpdate('paused', jid);
+  } catch (error) {
+    console.warn(`[BAILEYS] ⚠️ Humanize pacing failed for ${jid}, sending anyway:`, error.message);
+  }
+}
+
+class MessageReferenceError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'MessageReferenceError';
+    this.details = details;
+  }
+}
+
+/**
+ * Rebuild the WhatsApp key (and a minimal message body for quoting) of a logged message
+ * @throws {MessageReferenceError} when the message is not in this agent's message_log
+ */
+async function resolveMessageReference(agentId, messageId) {
+  const { data, error } = await supabaseAdmin
+    .from('message_log')
+    .select('message_id, conversation_id, participant_jid, direction, wa_key, message_text, message_type')
+    .eq('agent_id', agentId)
+    .eq('message_id', messageId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new MessageReferenceError('Referenced message not found', `No message with id ${messageId} for this agent`);
+  }
+
+  // Outbound rows carry the exact key returned by the send; inbound keys are rebuilt from the row
+  const key = data.wa_key?.id
+    ? data.wa_key
+    : {
+      remoteJid: data.conversation_id,
+      id: data.message_id,
+      fromMe: data.direction === 'outgoing',
+      ...(data.participant_jid && { participant: data.participant_jid }),
+    };
+
+  return {
+    key,
+    message: { key, message: { conversation: data.message_text || '' } },
+  };
+}
+
+// "923001234567" / "923001234567@s.whatsapp.net" / "...@lid" -> JID for Baileys mentions
+function toMentionJid(mention) {
+  if (typeof mention !== 'string') {
+    return null;
+  }
+  if (mention.includes('@')) {
+    return mention;
+  }
+  const digits = mention.replace(/\D/g, '');
+  return digits ? `${digits}@s.whatsapp.net` : null;
+}
+
 // Send message
-async function sendMessage(agentId, to, message) {
-    const session = activeSessions.get(agentId);
+const OUTBOUND_SOURCES = new Set(['api', 'webhook', 'manual', 'ai', 'scheduled', 'campaign', 'consent']);
+
+/**
+ * Record an API-originated outbound message in message_log.
+ * Baileys also echoes own messages through messages.upsert; whichever write lands second
+ * merges into the same (agent_id, message_id) row, so the request context is never lost.
+ */
+async function logOutboundMessage({
+  agentId,
+  session,
+  jid,
+  sent,
+  waMessageId,
+  messageType,
+  text,
+  media,
+  source,
+  requestId,
+  trackingId,
+  quotedMessageId,
+  reactionTo,
+}) {
+  try {
+    // user_id is required for the per-user statistics in /api/agents/:id/details
+    const { data: agentData } = await supabaseAdmin
+      .from('agents')
+      .select('user_id')
+      .eq('id', agentId)
+      .maybeSingle();
+    const userId = agentData?.user_id || null;
+
+    const agentNumber = sanitizeNumberFromJid(session.phoneNumber) || sanitizeNumberFromJid(session.socket?.user?.id);
+    const now = new Date().toISOString();
+    const waKey = sent?.key || { remoteJid: jid, fromMe: true, id: waMessageId };
+
+    const row = {
+      message_id: waMessageId,
+      agent_id: agentId,
+      user_id: userId,
+      conversation_id: jid,
+      sender_phone: agentNumber,
+      message_text: text || null,
+      message_type: messageType,
+      direction: 'outgoing',
+      source,
+      request_id: requestId || null,
+      wa_key: waKey,
+      ...(media && {
+        media_mimetype: media.mimetype,
+        media_size: media.buffer?.length || null,
+      }),
+      metadata: {
+        platform: 'whatsapp',
+        phoneNumber: agentNumber,
+        direction: 'outgoing',
+        remoteJid: jid,
+        messageId: waMessageId,
+        source,
+        ...(requestId && { requestId }),
+        ...(trackingId && { trackingId }),
+        ...(media?.fileName && { fileName: media.fileName }),
+        ...(quotedMessageId && { quoted: { messageId: quotedMessageId } }),
+        ...(reactionTo && { reaction: { messageId: reactionTo, emoji: text || '' } }),
+      },
+      received_at: now,
+    };
+
+    const { error } = await supabaseAdmin
+      .from('message_log')
+      .upsert(row, { onConflict: 'agent_id,message_id' });
+
+    if (error) {
+      console.error('[BAILEYS][DB] ❌ Failed to log outbound message', { waMessageId, error: error.message });
+    }
+  } catch (error) {
+    console.error('[BAILEYS][DB] ❌ Unexpected error logging outbound message', { waMessageId, error: error.message });
+  }
+}
+
+/**
+ * Send a text or media message and track its delivery status.
+ * `message` is either a string (text) or { text, media, quotedMessageId, mentions, reaction }:
+ * - media: a payload accepted by outboundMediaService (image, video, audio or document by URL or base64)
+ * - quotedMessageId: message_log id of the message to reply to
+ * - mentions: phone numbers or JIDs to mention (the text should contain "@<number>" for each)
+ * - reaction: { messageId, emoji } sends only a reaction (empty emoji removes it)
+ * `options.source` (api | webhook | manual | ai | scheduled | campaign | consent) and `options.requestId`
+ * are recorded in message_log. With the agent's humanize mode enabled the send is preceded by a
+ * read receipt and a typing indicator (see humanizeBeforeSend).
+ * Throws SuppressedRecipientError when the recipient has opted out of this agent's messages.
+ * Returns { messageId, trackingId, status, key } so callers can poll delivery later.
+ */
+async function sendMessage(agentId, to, message, options = {}) {
+  const session = activeSessions.get(agentId);
   
   if (!session || !session.isConnected) {
     throw new Error('WhatsApp not connected');
   }
+
+  // Replies to LID-addressed customers go to their phone JID when the mapping is known
+  const jid = await lidMappingService.resolveRecipientJid(agentId, to);
+
+  // The opt-out confirmation itself is the only message allowed to a suppressed number.
+  // Both the given and the resolved number are checked, so addressing a customer by LID is no way around it
+  if (!isGroupJid(jid) && !options.skipSuppressionCheck) {
+    await consentService.assertNotSuppressed(agentId, to);
+
+    const resolvedNumber = sanitizeNumberFromJid(jid);
+    if (resolvedNumber && resolvedNumber !== sanitizeNumberFromJid(to)) {
+      await consentService.assertNotSuppressed(agentId, resolvedNumber);
+    }
+  }
+
+  const payload = typeof message === 'string' ? { text: message } : message || {};
+  let content = { text: payload.text };
+  let messageType = 'TEXT';
+  let preview = payload.text;
+  let resolvedMedia = null;
+  const source = OUTBOUND_SOURCES.has(options.source) ? options.source : 'api';
+
+  let quoted = null;
+  let reactionTarget = null;
+
+  if (payload.reaction) {
+    // Throws MessageReferenceError when the target is unknown
+    reactionTarget = await resolveMessageReference(agentId, payload.reaction.messageId);
+    content = { react: { text: payload.reaction.emoji || '', key: reactionTarget.key } };
+    messageType = 'REACTION';
+    preview = payload.reaction.emoji || '[reaction removed]';
+  } else if (payload.media) {
+    // Throws MediaPayloadError (size/mimetype/download) before anything is tracked
+    resolvedMedia = await resolveMediaPayload(payload.media);
+    content = buildMediaMessageContent(resolvedMedia);
+    messageType = resolvedMedia.type.toUpperCase();
+    preview = resolvedMedia.caption || resolvedMedia.fileName || `[${messageType}]`;
+  }
+
+  if (!reactionTarget) {
+    if (payload.quotedMessageId) {
+      quoted = (await resolveMessageReference(agentId, payload.quotedMessageId)).message;
+    }
+
+    const mentions = Array.isArray(payload.mentions) ? payload.mentions.map(toMentionJid).filter(Boolean) : [];
+    if (mentions.length > 0) {
+      content.mentions = mentions;
+    }
+  }
+
+  const { data: agentSettings } = await supabaseAdmin
+    .from('agents')
+    .select('humanize_settings')
+    .eq('id', agentId)
+    .maybeSingle();
+  const humanizeSettings = normalizeHumanizeSettings(agentSettings?.humanize_settings);
+
+  // Reactions are instant; typing before one would look odd
+  if (humanizeSettings.enabled && options.humanize !== false && !reactionTarget) {
+    await humanizeBeforeSend(agentId, session.socket, jid, {
+      text: resolvedMedia ? resolvedMedia.caption : payload.text,
+      isVoiceNote: Boolean(resolvedMedia?.ptt),
+      settings: humanizeSettings,
+    });
+
+    // The session may have dropped (or been replaced by a reconnect) while "typing"
+    if (activeSessions.get(agentId) !== session || !session.isConnected) {
+      throw new Error('WhatsApp not connected');
+    }
+  }
+
+  // Pre-generate the WhatsApp id so receipts arriving before send() resolves still match the row
+  const waMessageId = generateMessageIDV2(session.socket.user?.id);
+  const tracked = await messageStatusService.createPending({
+    agentId,
+    remoteJid: jid,
+    waMessageId,
+    messageType,
+    preview,
+  });
+
+  let sent;
+  try {
+    sent = await session.socket.sendMessage(jid, content, {
+      messageId: waMessageId,
+      ...(quoted && { quoted }),
+    });
+  } catch (error) {
+    await messageStatusService.updateStatus(agentId, waMessageId, 'failed', { error: error.message });
+    throw error;
+  }
+
+  const updated = await messageStatusService.updateStatus(agentId, waMessageId, 'sent');
+
+  await logOutboundMessage({
+    agentId,
+    session,
+    jid,
+    sent,
+    waMessageId,
+    messageType,
+    text: reactionTarget ? payload.reaction.emoji : resolvedMedia ? resolvedMedia.caption : payload.text,
+    media: resolvedMedia,
+    source,
+    requestId: options.requestId,
+    trackingId: tracked?.id,
+    quotedMessageId: quoted ? payload.quotedMessageId : null,
+    reactionTo: reactionTarget ? payload.reaction.messageId : null,
+  });
   
-  const jid = to.includes('@') ? to : `${to}@s.whatsapp.net`;
-  await session.socket.sendMessage(jid, { text: message });
-  
-  console.log(`[BAILEYS] ✅ Message sent to ${to}`);
+  console.log(`[BAILEYS] ✅ ${messageType} message sent to ${to} (${waMessageId}, source: ${source})`);
+
+  return {
+    messageId: sent?.key?.id || waMessageId,
+    trackingId: tracked?.id || null,
+    status: updated?.status || (tracked ? 'sent' : null),
+    key: sent?.key || null,
+  };
+}
+
+/**
+ * Apply an opt-out/opt-in keyword from a customer and send the configured confirmation.
+ * Opt-in is only confirmed when the number was actually suppressed.
+ */
+async function handleConsentKeyword(agentId, phoneNumber, action, settings, keyword) {
+  let reply = null;
+
+  if (action === 'opt_out') {
+    await consentService.suppressNumber(agentId, phoneNumber, { reason: 'keyword', keyword: keyword.trim() });
+    reply = settings.optOutReply;
+  } else if (await consentService.unsuppressNumber(agentId, phoneNumber)) {
+    reply = settings.optInReply;
+  }
+
+  if (reply && reply.trim()) {
+    try {
+      await sendMessage(agentId, phoneNumber, reply.trim(), {
+        source: 'consent',
+        humanize: false,
+        skipSuppressionCheck: true,
+      });
+    } catch (error) {
+      console.error(`[CONSENT] ❌ Failed to send ${action} confirmation to ${phoneNumber}:`, error.message);
+    }
+  }
 }
 
 // Cleanup expired QR codes
@@ -2477,6 +3965,7 @@ module.exports = {
   getSessionStatus,
   getWhatsAppStatus,
   sendMessage,
+  MessageReferenceError,
   uploadAgentFile,
   updateAgentFiles,
   deleteAgentFile,
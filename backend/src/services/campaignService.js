@@ -0,0 +1,478 @@
+const os = require('os');
+const { supabaseAdmin } = require('../config/supabase');
+const { sendMessage, activeSessions } = require('./baileysService');
+const { MediaPayloadError } = require('./outboundMediaService');
+const { SuppressedRecipientError, getSuppressedNumbers } = require('./consentService');
+const { normalizeQueueSettings, isSendThrottled, reserveSendSlot } = require('./outboundQueueService');
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const CAMPAIGN_POLL_INTERVAL_MS = Number(process.env.CAMPAIGN_POLL_MS) || 2000;
+const CAMPAIGN_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+const CAMPAIGN_MAX_ATTEMPTS = 3;
+const RECIPIENT_STATUSES = ['pending', 'sending', 'sent', 'failed', 'skipped'];
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+// Contact columns available to templates
+const TEMPLATE_FIELDS = ['name', 'company', 'email', 'phone_number'];
+const CONTACTS_PAGE_SIZE = 1000; // PostgREST caps a single response (1000 rows by default)
+
+let workerInterval = null;
+let isTicking = false;
+
+/**
+ * Fill {{name}} / {{company}} (and other contact columns) from a contacts row.
+ * Unknown variables and empty columns render as an empty string.
+ */
+function renderTemplate(template, contact) {
+  return template
+    .replace(TEMPLATE_VARIABLE_REGEX, (_, field) => (
+      TEMPLATE_FIELDS.includes(field) && contact[field] ? String(contact[field]).trim() : ''
+    ))
+    .trim();
+}
+
+function applyContactFilter(query, filter = {}) {
+  let filtered = query;
+
+  if (Array.isArray(filter.contactIds) && filter.contactIds.length > 0) {
+    filtered = filtered.in('id', filter.contactIds);
+  }
+
+  if (filter.company) {
+    filtered = filtered.ilike('company', `%${filter.company}%`);
+  }
+
+  if (filter.search) {
+    const term = filter.search.replace(/[%,()]/g, '');
+    filtered = filtered.or(`name.ilike.%${term}%,phone_number.ilike.%${term}%`);
+  }
+
+  return filtered;
+}
+
+// All contacts matching the filter, loaded page by page so none are cut off by the response cap
+async function loadContacts(agentId, filter) {
+  const contacts = [];
+
+  for (let offset = 0; ; ) {
+    const { data, error } = await applyContactFilter(
+      supabaseAdmin
+        .from('contacts')
+        .select('id, name, company, email, phone_number, opted_out')
+        .eq('agent_id', agentId),
+      filter
+    )
+      .order('id', { ascending: true })
+      .range(offset, offset + CONTACTS_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load contacts: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return contacts;
+    }
+
+    contacts.push(...data);
+    offset += data.length;
+  }
+}
+
+/**
+ * Create a campaign and snapshot its recipients from the agent's contacts.
+ * Opted-out and suppressed contacts are excluded up front (and re-checked before each send).
+ */
+async function createCampaign(agentId, { name, template, media, filter, messagesPerMinute, startPaused, createdBy }) {
+  const { data: agent } = await supabaseAdmin
+    .from('agents')
+    .select('outbound_queue_settings')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  const queueSettings = normalizeQueueSettings(agent?.outbound_queue_settings);
+
+  const contacts = await loadContacts(agentId, filter);
+  const suppressedNumbers = await getSuppressedNumbers(agentId);
+  const eligible = [];
+  const seenNumbers = new Set();
+  let optedOutCount = 0;
+
+  for (const contact of contacts) {
+    const phoneNumber = (contact.phone_number || '').replace(/\D/g, '');
+    if (contact.opted_out || suppressedNumbers.has(phoneNumber)) {
+      optedOutCount++;
+      continue;
+    }
+    if (phoneNumber.length < 10 || seenNumbers.has(phoneNumber)) {
+      continue;
+    }
+    seenNumbers.add(phoneNumber);
+    eligible.push({ contact, phoneNumber });
+  }
+
+  const now = new Date().toISOString();
+  const { data: campaign, error: campaignError } = await supabaseAdmin
+    .from('campaigns')
+    .insert({
+      agent_id: agentId,
+      created_by: createdBy || null,
+      name,
+      message_template: template,
+      media: media || null,
+      contact_filter: filter || {},
+      messages_per_minute: messagesPerMinute || queueSettings.messagesPerMinute,
+      jitter_seconds: queueSettings.jitterSeconds,
+      status: startPaused ? 'paused' : 'running',
+      total_recipients: eligible.length,
+      excluded_opted_out: optedOutCount,
+      started_at: startPaused ? null : now,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (campaignError) {
+    throw new Error(`Failed to create campaign: ${campaignError.message}`);
+  }
+
+  if (eligible.length > 0) {
+    const recipients = eligible.map(({ contact, phoneNumber }) => ({
+      campaign_id: campaign.id,
+      agent_id: agentId,
+      contact_id: contact.id,
+      phone_number: phoneNumber,
+      contact_name: contact.name || null,
+      rendered_message: renderTemplate(template, contact),
+      status: 'pending',
+    }));
+
+    // Inserted in batches to keep request bodies small; recipients are removed with the campaign on failure
+    for (let index = 0; index < recipients.length; index += CONTACTS_PAGE_SIZE) {
+      const { error: recipientsError } = await supabaseAdmin
+        .from('campaign_recipients')
+        .insert(recipients.slice(index, index + CONTACTS_PAGE_SIZE));
+
+      if (recipientsError) {
+        await supabaseAdmin.from('campaigns').delete().eq('id', campaign.id);
+        throw new Error(`Failed to create campaign recipients: ${recipientsError.message}`);
+      }
+    }
+  }
+
+  console.log(`[CAMPAIGN] 📣 Created campaign ${campaign.id} for agent ${agentId}: ${eligible.length} recipient(s), ${optedOutCount} opted out`);
+  return campaign;
+}
+
+async function getRecipientCounts(campaignId) {
+  const results = await Promise.all(RECIPIENT_STATUSES.map((status) => supabaseAdmin
+    .from('campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId)
+    .eq('status', status)));
+
+  return RECIPIENT_STATUSES.reduce((counts, status, index) => {
+    counts[status] = results[index].count || 0;
+    return counts;
+  }, {});
+}
+
+async function listCampaigns(agentId) {
+  const { data, error } = await supabaseAdmin
+    .from('campaigns')
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return Promise.all((data || []).map(async (campaign) => ({
+    ...campaign,
+    counts: await getRecipientCounts(campaign.id),
+  })));
+}
+
+/**
+ * Campaign report: the campaign, per-status counts and a page of recipients
+ */
+async function getCampaignReport(agentId, campaignId, { status, limit = 100, offset = 0 } = {}) {
+  const { data: campaign, error } = await supabaseAdmin
+    .from('campaigns')
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!campaign) {
+    return null;
+  }
+
+  let query = supabaseAdmin
+    .from('campaign_recipients')
+    .select('id, contact_id, phone_number, contact_name, status, attempts, error_message, wa_message_id, sent_at, updated_at', { count: 'exact' })
+    .eq('campaign_id', campaignId)
+    .order('created_at', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data: recipients, error: recipientsError, count } = await query;
+
+  if (recipientsError) {
+    throw recipientsError;
+  }
+
+  return {
+    campaign,
+    counts: await getRecipientCounts(campaignId),
+    recipients: recipients || [],
+    total: count || 0,
+  };
+}
+
+const STATUS_TRANSITIONS = {
+  pause: { from: ['running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['running', 'paused'], to: 'cancelled' },
+};
+
+/**
+ * Pause, resume or cancel a campaign
+ * @returns {Promise<object|null>} the updated campaign, or null if the transition is not allowed
+ */
+async function updateCampaignStatus(agentId, campaignId, action) {
+  const transition = STATUS_TRANSITIONS[action];
+  const now = new Date().toISOString();
+  const update = { status: transition.to, updated_at: now };
+
+  if (action === 'resume') {
+    update.started_at = now;
+  }
+  if (action === 'cancel') {
+    update.completed_at = now;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('campaigns')
+    .update(update)
+    .eq('agent_id', agentId)
+    .eq('id', campaignId)
+    .in('status', transition.from)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (data && action === 'cancel') {
+    await supabaseAdmin
+      .from('campaign_recipients')
+      .update({ status: 'skipped', error_message: 'Campaign cancelled', updated_at: now })
+      .eq('campaign_id', campaignId)
+      .eq('status', 'pending');
+  }
+
+  if (data) {
+    console.log(`[CAMPAIGN] ⏯️ Campaign ${campaignId} → ${transition.to}`);
+  }
+
+  return data;
+}
+
+async function finishRecipient(recipient, update) {
+  await supabaseAdmin
+    .from('campaign_recipients')
+    .update({
+      ...update,
+      locked_by: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', recipient.id)
+    .eq('locked_by', WORKER_ID);
+}
+
+async function sendToRecipient(campaign, recipient) {
+  const { data: claimed } = await supabaseAdmin
+    .from('campaign_recipients')
+    .update({
+      status: 'sending',
+      locked_by: WORKER_ID,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', recipient.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (!claimed) {
+    return;
+  }
+
+  // Contacts may opt out after the campaign was created
+  if (claimed.contact_id) {
+    const { data: contact } = await supabaseAdmin
+      .from('contacts')
+      .select('opted_out')
+      .eq('id', claimed.contact_id)
+      .maybeSingle();
+
+    if (contact?.opted_out) {
+      await finishRecipient(claimed, { status: 'skipped', error_message: 'Contact opted out' });
+      return;
+    }
+  }
+
+  const attempts = claimed.attempts + 1;
+  const payload = campaign.media
+    ? { media: { ...campaign.media, caption: campaign.media.type !== 'audio' ? claimed.rendered_message || undefined : undefined } }
+    : { text: claimed.rendered_message };
+
+  try {
+    const result = await sendMessage(campaign.agent_id, claimed.phone_number, payload, {
+      source: 'campaign',
+      requestId: `campaign-${campaign.id}`,
+    });
+
+    await finishRecipient(claimed, {
+      status: 'sent',
+      attempts,
+      sent_at: new Date().toISOString(),
+      wa_message_id: result?.messageId || null,
+      error_message: null,
+    });
+  } catch (error) {
+    // Numbers can opt out by keyword without having a contact record
+    if (error instanceof SuppressedRecipientError) {
+      await finishRecipient(claimed, { status: 'skipped', attempts, error_message: 'Contact opted out' });
+      return;
+    }
+
+    const permanent = error instanceof MediaPayloadError || attempts >= CAMPAIGN_MAX_ATTEMPTS;
+
+    await finishRecipient(claimed, {
+      status: permanent ? 'failed' : 'pending',
+      attempts,
+      error_message: error.details ? `${error.message}: ${error.details}` : error.message,
+    });
+
+    console.error(`[CAMPAIGN] ❌ Campaign ${campaign.id} → ${claimed.phone_number} attempt ${attempts} failed: ${error.message}`);
+  }
+}
+
+async function completeCampaignIfDone(campaign) {
+  const { count } = await supabaseAdmin
+    .from('campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .in('status', ['pending', 'sending']);
+
+  if (count === 0) {
+    const now = new Date().toISOString();
+    await supabaseAdmin
+      .from('campaigns')
+      .update({ status: 'completed', completed_at: now, updated_at: now })
+      .eq('id', campaign.id)
+      .eq('status', 'running');
+
+    console.log(`[CAMPAIGN] 🏁 Campaign ${campaign.id} completed`);
+    return true;
+  }
+
+  return false;
+}
+
+async function processCampaignTick() {
+  if (isTicking) {
+    return;
+  }
+  isTicking = true;
+
+  try {
+    await supabaseAdmin
+      .from('campaign_recipients')
+      .update({ status: 'pending', locked_by: null, locked_at: null })
+      .eq('status', 'sending')
+      .lt('locked_at', new Date(Date.now() - CAMPAIGN_LOCK_TIMEOUT_MS).toISOString());
+
+    const { data: campaigns, error } = await supabaseAdmin
+      .from('campaigns')
+      .select('*')
+      .eq('status', 'running')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[CAMPAIGN] ❌ Failed to load running campaigns:', error.message);
+      return;
+    }
+
+    for (const campaign of campaigns || []) {
+      const agentId = campaign.agent_id;
+
+      // Pacing is shared with the outbound queue and with the agent's other campaigns
+      if (!activeSessions.get(agentId)?.isConnected || isSendThrottled(agentId)) {
+        continue;
+      }
+
+      const { data: recipient } = await supabaseAdmin
+        .from('campaign_recipients')
+        .select('id')
+        .eq('campaign_id', campaign.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (!recipient) {
+        await completeCampaignIfDone(campaign);
+        continue;
+      }
+
+      reserveSendSlot(agentId, {
+        messagesPerMinute: campaign.messages_per_minute,
+        jitterSeconds: campaign.jitter_seconds,
+      });
+
+      await sendToRecipient(campaign, recipient);
+    }
+  } catch (error) {
+    console.error('[CAMPAIGN] ❌ Campaign tick failed:', error.message);
+  } finally {
+    isTicking = false;
+  }
+}
+
+function startCampaignWorker() {
+  if (workerInterval) {
+    return;
+  }
+
+  console.log(`[CAMPAIGN] 📣 Campaign worker started (${WORKER_ID}, every ${CAMPAIGN_POLL_INTERVAL_MS}ms)`);
+  workerInterval = setInterval(processCampaignTick, CAMPAIGN_POLL_INTERVAL_MS);
+}
+
+function stopCampaignWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+module.exports = {
+  RECIPIENT_STATUSES,
+  renderTemplate,
+  createCampaign,
+  listCampaigns,
+  getCampaignReport,
+  updateCampaignStatus,
+  startCampaignWorker,
+  stopCampaignWorker,
+};
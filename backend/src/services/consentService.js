@@ -0,0 +1,238 @@
+const { supabaseAdmin } = require('../config/supabase');
+
+const DEFAULT_CONSENT_SETTINGS = {
+  enabled: false,
+  optOutKeywords: ['STOP', 'UNSUBSCRIBE', 'STOP ALL', 'OPT OUT'],
+  optInKeywords: ['START', 'SUBSCRIBE', 'UNSTOP'],
+  optOutReply: 'You have been unsubscribed and will not receive further messages. Reply START to subscribe again.',
+  optInReply: 'You are subscribed again. Reply STOP at any time to unsubscribe.',
+};
+
+const SUPPRESSION_PAGE_SIZE = 1000;
+
+class SuppressedRecipientError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'SuppressedRecipientError';
+    this.details = details;
+  }
+}
+
+function normalizeNumber(phone) {
+  return typeof phone === 'string' ? phone.split('@')[0].replace(/\D/g, '') : '';
+}
+
+// "Stop!", " stop " and "Opt-out" all match the keyword "STOP" / "OPT OUT"
+function normalizeKeyword(text) {
+  return (text || '')
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function normalizeConsentSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const keywords = (value, fallback) => (
+    Array.isArray(value) ? value.map(normalizeKeyword).filter(Boolean) : fallback
+  );
+
+  return {
+    enabled: typeof source.enabled === 'boolean' ? source.enabled : DEFAULT_CONSENT_SETTINGS.enabled,
+    optOutKeywords: keywords(source.optOutKeywords, DEFAULT_CONSENT_SETTINGS.optOutKeywords),
+    optInKeywords: keywords(source.optInKeywords, DEFAULT_CONSENT_SETTINGS.optInKeywords),
+    optOutReply: typeof source.optOutReply === 'string' ? source.optOutReply : DEFAULT_CONSENT_SETTINGS.optOutReply,
+    optInReply: typeof source.optInReply === 'string' ? source.optInReply : DEFAULT_CONSENT_SETTINGS.optInReply,
+  };
+}
+
+/**
+ * Only a message consisting of a keyword counts, so "please don't stop" is not an opt-out
+ * @returns {'opt_out'|'opt_in'|null}
+ */
+function matchConsentKeyword(text, settings) {
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const normalized = normalizeKeyword(text);
+  if (!normalized) {
+    return null;
+  }
+  if (settings.optOutKeywords.map(normalizeKeyword).includes(normalized)) {
+    return 'opt_out';
+  }
+  if (settings.optInKeywords.map(normalizeKeyword).includes(normalized)) {
+    return 'opt_in';
+  }
+  return null;
+}
+
+async function findContact(agentId, phoneNumber) {
+  const { data } = await supabaseAdmin
+    .from('contacts')
+    .select('id')
+    .eq('agent_id', agentId)
+    .in('phone_number', [phoneNumber, `+${phoneNumber}`])
+    .limit(1)
+    .maybeSingle();
+
+  return data;
+}
+
+async function setContactOptedOut(agentId, phoneNumber, optedOut) {
+  const { error } = await supabaseAdmin
+    .from('contacts')
+    .update({
+      opted_out: optedOut,
+      opted_out_at: optedOut ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('agent_id', agentId)
+    .in('phone_number', [phoneNumber, `+${phoneNumber}`]);
+
+  if (error) {
+    console.error('[CONSENT] ❌ Failed to update contact opt-out flag:', error.message);
+  }
+}
+
+/**
+ * Add a number to the agent's suppression list (idempotent) and flag the matching contact
+ * @returns {Promise<object>} the suppression row
+ */
+async function suppressNumber(agentId, phone, { reason = 'manual', keyword = null, createdBy = null } = {}) {
+  const phoneNumber = normalizeNumber(phone);
+  const contact = await findContact(agentId, phoneNumber);
+
+  const { data, error } = await supabaseAdmin
+    .from('contact_suppressions')
+    .upsert({
+      agent_id: agentId,
+      phone_number: phoneNumber,
+      contact_id: contact?.id || null,
+      reason,
+      keyword,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+    }, { onConflict: 'agent_id,phone_number' })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  await setContactOptedOut(agentId, phoneNumber, true);
+  console.log(`[CONSENT] 🚫 ${phoneNumber} suppressed for agent ${agentId} (${reason})`);
+  return data;
+}
+
+/**
+ * Remove a number from the suppression list
+ * @returns {Promise<boolean>} false when the number was not suppressed
+ */
+async function unsuppressNumber(agentId, phone) {
+  const phoneNumber = normalizeNumber(phone);
+
+  const { data, error } = await supabaseAdmin
+    .from('contact_suppressions')
+    .delete()
+    .eq('agent_id', agentId)
+    .eq('phone_number', phoneNumber)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  await setContactOptedOut(agentId, phoneNumber, false);
+  if (data?.length) {
+    console.log(`[CONSENT] ✅ ${phoneNumber} removed from suppression list for agent ${agentId}`);
+  }
+  return Boolean(data?.length);
+}
+
+async function isNumberSuppressed(agentId, phone) {
+  const phoneNumber = normalizeNumber(phone);
+  if (!phoneNumber) {
+    return false;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('contact_suppressions')
+    .select('id')
+    .eq('agent_id', agentId)
+    .eq('phone_number', phoneNumber)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+}
+
+/**
+ * @throws {SuppressedRecipientError} when the number has opted out
+ */
+async function assertNotSuppressed(agentId, phone) {
+  if (await isNumberSuppressed(agentId, phone)) {
+    throw new SuppressedRecipientError(
+      'Recipient has opted out',
+      `${normalizeNumber(phone)} is on this agent's suppression list; they must opt in again before receiving messages`
+    );
+  }
+}
+
+async function listSuppressions(agentId, { limit = 50, offset = 0 } = {}) {
+  const { data, error, count } = await supabaseAdmin
+    .from('contact_suppressions')
+    .select('*', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return { suppressions: data || [], total: count || 0 };
+}
+
+// Paged, since PostgREST caps a single response (1000 rows by default)
+async function getSuppressedNumbers(agentId) {
+  const numbers = new Set();
+
+  for (let offset = 0; ; ) {
+    const { data, error } = await supabaseAdmin
+      .from('contact_suppressions')
+      .select('phone_number')
+      .eq('agent_id', agentId)
+      .order('id', { ascending: true })
+      .range(offset, offset + SUPPRESSION_PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+    if (!data || data.length === 0) {
+      return numbers;
+    }
+
+    for (const row of data) {
+      numbers.add(row.phone_number);
+    }
+    offset += data.length;
+  }
+}
+
+module.exports = {
+  DEFAULT_CONSENT_SETTINGS,
+  SuppressedRecipientError,
+  normalizeConsentSettings,
+  matchConsentKeyword,
+  suppressNumber,
+  unsuppressNumber,
+  isNumberSuppressed,
+  assertNotSuppressed,
+  listSuppressions,
+  getSuppressedNumbers,
+};
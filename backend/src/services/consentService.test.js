@@ -0,0 +1,48 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { normalizeConsentSettings, matchConsentKeyword } = require('./consentService');
+
+const enabled = normalizeConsentSettings({ enabled: true });
+
+describe('normalizeConsentSettings', () => {
+  it('is disabled unless the agent turned it on', () => {
+    assert.equal(normalizeConsentSettings(null).enabled, false);
+    assert.equal(normalizeConsentSettings({}).enabled, false);
+  });
+
+  it('fills in default keywords and replies', () => {
+    assert.deepEqual(enabled.optOutKeywords, ['STOP', 'UNSUBSCRIBE', 'STOP ALL', 'OPT OUT']);
+    assert.deepEqual(enabled.optInKeywords, ['START', 'SUBSCRIBE', 'UNSTOP']);
+    assert.equal(typeof enabled.optOutReply, 'string');
+  });
+
+  it('normalizes custom keywords', () => {
+    const settings = normalizeConsentSettings({ enabled: true, optOutKeywords: [' cancel ', 'opt-out', ''] });
+    assert.deepEqual(settings.optOutKeywords, ['CANCEL', 'OPT OUT']);
+  });
+});
+
+describe('matchConsentKeyword', () => {
+  it('matches whole-message keywords regardless of case and punctuation', () => {
+    assert.equal(matchConsentKeyword('STOP', enabled), 'opt_out');
+    assert.equal(matchConsentKeyword(' stop! ', enabled), 'opt_out');
+    assert.equal(matchConsentKeyword('Opt-out', enabled), 'opt_out');
+    assert.equal(matchConsentKeyword('start', enabled), 'opt_in');
+  });
+
+  it('ignores keywords inside a longer message', () => {
+    assert.equal(matchConsentKeyword("please don't stop", enabled), null);
+    assert.equal(matchConsentKeyword('start my order', enabled), null);
+  });
+
+  it('does nothing while disabled', () => {
+    assert.equal(matchConsentKeyword('STOP', normalizeConsentSettings({})), null);
+  });
+
+  it('ignores empty messages', () => {
+    assert.equal(matchConsentKeyword('', enabled), null);
+    assert.equal(matchConsentKeyword('!!!', enabled), null);
+    assert.equal(matchConsentKeyword(null, enabled), null);
+  });
+});
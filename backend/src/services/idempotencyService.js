@@ -0,0 +1,148 @@
+const crypto = require('crypto');
+const { supabaseAdmin } = require('../config/supabase');
+
+const IDEMPOTENCY_RETENTION_MS = (Number(process.env.IDEMPOTENCY_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+let lastPurgeAt = 0;
+
+function isValidIdempotencyKey(key) {
+  return typeof key === 'string' && key.trim().length > 0 && key.length <= MAX_KEY_LENGTH;
+}
+
+function hashRequestBody(body) {
+  return crypto.createHash('sha256').update(JSON.stringify(body || {})).digest('hex');
+}
+
+// Expired keys are removed opportunistically, at most once an hour per instance
+function purgeExpiredKeys() {
+  const now = Date.now();
+  if (now - lastPurgeAt < PURGE_INTERVAL_MS) {
+    return;
+  }
+  lastPurgeAt = now;
+
+  supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .lt('expires_at', new Date(now).toISOString())
+    .then(({ error }) => {
+      if (error) {
+        console.error('[IDEMPOTENCY] ❌ Failed to purge expired keys:', error.message);
+      }
+    });
+}
+
+async function insertReservation(agentId, key, requestHash) {
+  const now = Date.now();
+
+  return supabaseAdmin
+    .from('idempotency_keys')
+    .insert({
+      agent_id: agentId,
+      idempotency_key: key,
+      request_hash: requestHash,
+      status: 'processing',
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + IDEMPOTENCY_RETENTION_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+}
+
+/**
+ * Reserve an idempotency key before the request is processed. The unique (agent_id, key)
+ * constraint makes this atomic, so concurrent retries cannot both go through.
+ * @returns {Promise<{ state: 'new'|'replay'|'in_progress'|'mismatch', record?: object }>}
+ */
+async function reserveIdempotencyKey(agentId, key, requestHash) {
+  purgeExpiredKeys();
+
+  const { data, error } = await insertReservation(agentId, key, requestHash);
+  if (!error) {
+    return { state: 'new', record: data };
+  }
+
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('idempotency_keys')
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('idempotency_key', key)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  // Released or purged between the insert and the lookup: take the key over
+  if (!existing || new Date(existing.expires_at).getTime() <= Date.now()) {
+    if (existing) {
+      await supabaseAdmin.from('idempotency_keys').delete().eq('id', existing.id).eq('expires_at', existing.expires_at);
+    }
+    const retry = await insertReservation(agentId, key, requestHash);
+    if (retry.error) {
+      if (retry.error.code === '23505') {
+        return { state: 'in_progress' };
+      }
+      throw retry.error;
+    }
+    return { state: 'new', record: retry.data };
+  }
+
+  if (existing.request_hash !== requestHash) {
+    return { state: 'mismatch', record: existing };
+  }
+
+  if (existing.status === 'completed') {
+    return { state: 'replay', record: existing };
+  }
+
+  return { state: 'in_progress', record: existing };
+}
+
+/**
+ * Store the response so repeats of the request get the same answer
+ */
+async function completeIdempotencyKey(id, responseStatus, responseBody) {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: responseStatus,
+      response_body: responseBody,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Drop a reservation whose request failed unexpectedly, so a retry is processed normally
+ */
+async function releaseIdempotencyKey(id) {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('id', id)
+    .eq('status', 'processing');
+
+  if (error) {
+    throw error;
+  }
+}
+
+module.exports = {
+  isValidIdempotencyKey,
+  hashRequestBody,
+  reserveIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+};
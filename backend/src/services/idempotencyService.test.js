@@ -0,0 +1,36 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { isValidIdempotencyKey, hashRequestBody } = require('./idempotencyService');
+
+describe('isValidIdempotencyKey', () => {
+  it('accepts non-blank keys up to 255 characters', () => {
+    assert.equal(isValidIdempotencyKey('n8n-exec-123-reply'), true);
+    assert.equal(isValidIdempotencyKey('x'.repeat(255)), true);
+  });
+
+  it('rejects blank, oversized and non-string keys', () => {
+    assert.equal(isValidIdempotencyKey('   '), false);
+    assert.equal(isValidIdempotencyKey('x'.repeat(256)), false);
+    assert.equal(isValidIdempotencyKey(123), false);
+    assert.equal(isValidIdempotencyKey(undefined), false);
+  });
+});
+
+describe('hashRequestBody', () => {
+  it('fingerprints identical bodies identically', () => {
+    const body = { agentId: 'agent-1', to: '923001234567', message: 'Hi' };
+    assert.equal(hashRequestBody(body), hashRequestBody({ ...body }));
+    assert.match(hashRequestBody(body), /^[0-9a-f]{64}$/);
+  });
+
+  it('tells bodies apart that would send something different', () => {
+    const body = { agentId: 'agent-1', to: '923001234567', message: 'Hi' };
+    assert.notEqual(hashRequestBody(body), hashRequestBody({ ...body, message: 'Hi!' }));
+    assert.notEqual(hashRequestBody(body), hashRequestBody({ ...body, to: '923001234568' }));
+  });
+
+  it('treats a missing body as an empty one', () => {
+    assert.equal(hashRequestBody(undefined), hashRequestBody({}));
+  });
+});
@@ -0,0 +1,64 @@
+const DEFAULT_MESSAGE_WEBHOOK_TEST = 'https://auto.nsolbpo.com/webhook-test/a18ff948-9380-4abe-a8d8-0912dae2d8ab';
+const DEFAULT_MESSAGE_WEBHOOK_PROD = 'https://auto.nsolbpo.com/webhook/a18ff948-9380-4abe-a8d8-0912dae2d8ab';
+
+function getDefaultInboundMessageWebhook() {
+  const explicit = process.env.WHATSAPP_MESSAGE_WEBHOOK;
+  if (explicit) {
+    return explicit;
+  }
+
+  const prodSpecific = process.env.WHATSAPP_MESSAGE_WEBHOOK_PROD;
+  const testSpecific = process.env.WHATSAPP_MESSAGE_WEBHOOK_TEST;
+  const isProd = process.env.NODE_ENV === 'production';
+
+  if (isProd) {
+    return prodSpecific || testSpecific || DEFAULT_MESSAGE_WEBHOOK_PROD;
+  }
+
+  return testSpecific || prodSpecific || DEFAULT_MESSAGE_WEBHOOK_TEST;
+}
+
+/**
+ * Per-agent inbound webhook (agents.inbound_webhook_settings).
+ * Shape: { url, testUrl, useTestUrl }; the environment URL is only used when the agent has none.
+ */
+function normalizeInboundWebhookSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const clean = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  return {
+    url: clean(source.url),
+    testUrl: clean(source.testUrl),
+    useTestUrl: source.useTestUrl === true,
+  };
+}
+
+/**
+ * @returns {{ url: string|null, source: 'agent-test'|'agent'|'environment' }}
+ */
+function resolveInboundWebhookUrl(settings, fallbackUrl) {
+  const normalized = normalizeInboundWebhookSettings(settings);
+
+  if (normalized.useTestUrl && normalized.testUrl) {
+    return { url: normalized.testUrl, source: 'agent-test' };
+  }
+  if (normalized.url) {
+    return { url: normalized.url, source: 'agent' };
+  }
+  return { url: fallbackUrl || null, source: 'environment' };
+}
+
+/**
+ * Inbound webhook for an agent: its own URL (or test URL while test mode is on),
+ * falling back to the environment-wide webhook
+ */
+function getInboundWebhookUrl(settings) {
+  return resolveInboundWebhookUrl(settings, getDefaultInboundMessageWebhook()).url;
+}
+
+module.exports = {
+  getDefaultInboundMessageWebhook,
+  normalizeInboundWebhookSettings,
+  resolveInboundWebhookUrl,
+  getInboundWebhookUrl,
+};
@@ -0,0 +1,43 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { normalizeInboundWebhookSettings, resolveInboundWebhookUrl } = require('./inboundWebhookService');
+
+const fallback = 'https://n8n.example.com/webhook/default';
+
+describe('normalizeInboundWebhookSettings', () => {
+  it('trims URLs and treats blanks as unset', () => {
+    assert.deepEqual(
+      normalizeInboundWebhookSettings({ url: ' https://n8n.example.com/webhook/a ', testUrl: '  ', useTestUrl: 'yes' }),
+      { url: 'https://n8n.example.com/webhook/a', testUrl: null, useTestUrl: false }
+    );
+    assert.deepEqual(normalizeInboundWebhookSettings(null), { url: null, testUrl: null, useTestUrl: false });
+  });
+});
+
+describe('resolveInboundWebhookUrl', () => {
+  const settings = {
+    url: 'https://n8n.example.com/webhook/a',
+    testUrl: 'https://n8n.example.com/webhook-test/a',
+  };
+
+  it('uses the agent URL over the environment webhook', () => {
+    assert.deepEqual(resolveInboundWebhookUrl(settings, fallback), { url: settings.url, source: 'agent' });
+  });
+
+  it('uses the test URL while test mode is on', () => {
+    assert.deepEqual(
+      resolveInboundWebhookUrl({ ...settings, useTestUrl: true }, fallback),
+      { url: settings.testUrl, source: 'agent-test' }
+    );
+  });
+
+  it('falls back to the environment webhook', () => {
+    assert.deepEqual(resolveInboundWebhookUrl({}, fallback), { url: fallback, source: 'environment' });
+    assert.deepEqual(
+      resolveInboundWebhookUrl({ useTestUrl: true }, fallback),
+      { url: fallback, source: 'environment' }
+    );
+    assert.deepEqual(resolveInboundWebhookUrl(null, undefined), { url: null, source: 'environment' });
+  });
+});
@@ -0,0 +1,196 @@
+const { supabaseAdmin } = require('../config/supabase');
+
+function isLidJid(jid) {
+  return typeof jid === 'string' && jid.endsWith('@lid');
+}
+
+function isPnJid(jid) {
+  return typeof jid === 'string' && jid.endsWith('@s.whatsapp.net');
+}
+
+// "12345:7@lid" -> "12345" (device suffix stripped)
+function jidUser(jid) {
+  if (!jid || typeof jid !== 'string') {
+    return null;
+  }
+
+  const user = jid.split('@')[0].split(':')[0];
+  return user || null;
+}
+
+/**
+ * Persistent LID <-> phone number mapping per agent.
+ * WhatsApp may address a customer by an opaque LID (…@lid) instead of their phone JID;
+ * mappings are learned from contact, chat and message events and cached in memory.
+ */
+class LidMappingService {
+  constructor() {
+    this.lidToPn = new Map(); // `${agentId}:${lid}` -> phone number
+    this.pnToLid = new Map(); // `${agentId}:${phone}` -> lid
+  }
+
+  cache(agentId, lid, phoneNumber) {
+    this.lidToPn.set(`${agentId}:${lid}`, phoneNumber);
+    this.pnToLid.set(`${agentId}:${phoneNumber}`, lid);
+  }
+
+  /**
+   * Record a LID/PN pair (either argument order is accepted)
+   * @returns {Promise<boolean>} true when a new or changed mapping was stored
+   */
+  async remember(agentId, jidA, jidB, source = 'message') {
+    const lidJid = isLidJid(jidA) ? jidA : isLidJid(jidB) ? jidB : null;
+    const pnJid = isPnJid(jidA) ? jidA : isPnJid(jidB) ? jidB : null;
+    const lid = jidUser(lidJid);
+    const phoneNumber = jidUser(pnJid);
+
+    if (!agentId || !lid || !phoneNumber) {
+      return false;
+    }
+
+    if (this.lidToPn.get(`${agentId}:${lid}`) === phoneNumber) {
+      return false;
+    }
+
+    this.cache(agentId, lid, phoneNumber);
+
+    const { error } = await supabaseAdmin
+      .from('whatsapp_lid_mappings')
+      .upsert(
+        {
+          agent_id: agentId,
+          lid,
+          phone_number: phoneNumber,
+          source,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'agent_id,lid' }
+      );
+
+    if (error) {
+      console.error('[LID] ❌ Failed to persist LID mapping:', error.message);
+      return false;
+    }
+
+    console.log(`[LID] 🔗 Mapped ${lid}@lid → ${phoneNumber} (${source})`);
+    return true;
+  }
+
+  /**
+   * Learn mappings from the alternate addressing fields Baileys puts on message keys
+   * (senderPn / participantPn / remoteJidAlt / participantAlt depending on version)
+   */
+  async rememberFromMessageKey(agentId, key) {
+    if (!key) {
+      return;
+    }
+
+    const pairs = [
+      [key.remoteJid, key.senderPn || key.remoteJidAlt || key.senderLid],
+      [key.participant, key.participantPn || key.participantAlt || key.participantLid],
+    ];
+
+    for (const [jid, alt] of pairs) {
+      if (jid && alt) {
+        await this.remember(agentId, jid, alt, 'message');
+      }
+    }
+  }
+
+  // Contacts from contacts.upsert/update and history sync carry id plus lid/jid/phoneNumber
+  async rememberFromContacts(agentId, contacts = [], source = 'contacts') {
+    for (const contact of contacts) {
+      const alt = contact?.lid || contact?.jid || contact?.phoneNumber;
+      if (contact?.id && alt) {
+        await this.remember(agentId, contact.id, alt, source);
+      }
+    }
+  }
+
+  async getPhoneNumber(agentId, lid) {
+    const cached = this.lidToPn.get(`${agentId}:${lid}`);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('whatsapp_lid_mappings')
+      .select('phone_number')
+      .eq('agent_id', agentId)
+      .eq('lid', lid)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    this.cache(agentId, lid, data.phone_number);
+    return data.phone_number;
+  }
+
+  async getLid(agentId, phoneNumber) {
+    const cached = this.pnToLid.get(`${agentId}:${phoneNumber}`);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('whatsapp_lid_mappings')
+      .select('lid')
+      .eq('agent_id', agentId)
+      .eq('phone_number', phoneNumber)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    this.cache(agentId, data.lid, phoneNumber);
+    return data.lid;
+  }
+
+  /**
+   * Resolve any JID to a phone number: PN JIDs are read directly,
+   * LIDs go through the mapping (null when unknown)
+   */
+  async resolvePhoneNumber(agentId, jid) {
+    if (!jid || typeof jid !== 'string') {
+      return null;
+    }
+
+    if (isLidJid(jid)) {
+      return this.getPhoneNumber(agentId, jidUser(jid));
+    }
+
+    const user = jidUser(jid);
+    const digits = user ? user.replace(/\D/g, '') : '';
+    return digits.length > 0 ? digits : null;
+  }
+
+  /**
+   * Resolve an outbound recipient to a phone JID where possible.
+   * Accepts "<digits>", "<pn>@s.whatsapp.net", "<lid>@lid" or a group JID;
+   * bare digits that are actually a known LID (older webhook payloads) are mapped too.
+   */
+  async resolveRecipientJid(agentId, to) {
+    if (typeof to !== 'string' || to.length === 0) {
+      return to;
+    }
+
+    if (to.includes('@')) {
+      if (!isLidJid(to)) {
+        return to;
+      }
+
+      const phoneNumber = await this.getPhoneNumber(agentId, jidUser(to));
+      return phoneNumber ? `${phoneNumber}@s.whatsapp.net` : to;
+    }
+
+    const phoneNumber = await this.getPhoneNumber(agentId, to);
+    return `${phoneNumber || to}@s.whatsapp.net`;
+  }
+}
+
+module.exports = new LidMappingService();
@@ -0,0 +1,109 @@
+const MAX_PART_LENGTH = 4096; // WhatsApp message limit
+const MIN_PART_LENGTH = 200;
+const MAX_SPLIT_PARTS = 10;
+const NUMBERING_RESERVE = 8; // "\n(10/10)"
+
+// Spans a break must never fall inside: URLs and WhatsApp formatting (```mono```, `code`, *bold*, _italic_, ~strike~)
+const PROTECTED_PATTERNS = [
+  /(?:https?:\/\/|www\.)\S+/gi,
+  /```[\s\S]*?```/g,
+  /`[^`\n]+`/g,
+  /\*[^*\n]+\*/g,
+  /_[^_\n]+_/g,
+  /~[^~\n]+~/g,
+];
+
+// Preferred break points, best first; each match ends where the next part starts
+const BOUNDARY_PATTERNS = [
+  /\n\s*\n/g, // paragraph
+  /\n/g, // line
+  /[.!?…]["')\]]*\s+/g, // sentence
+  /\s+/g, // word
+];
+
+function findProtectedRanges(text) {
+  const ranges = [];
+  for (const pattern of PROTECTED_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+function isInsideProtectedRange(ranges, position) {
+  return ranges.some(([start, end]) => start < position && position < end);
+}
+
+/**
+ * Last allowed break in (start, limit], preferring paragraph, then line, sentence and word boundaries.
+ * A weaker boundary is used when the stronger one would leave a part under half the limit;
+ * falls back to a hard cut at `limit` when nothing fits (e.g. a single URL longer than a part).
+ */
+function findBreak(text, start, limit, ranges) {
+  const window = text.slice(start, limit + 1);
+  const halfway = start + (limit - start) / 2;
+  let fallback = -1;
+
+  for (const pattern of BOUNDARY_PATTERNS) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      const cut = start + match.index + match[0].length;
+      if (cut <= limit && match.index > 0 && !isInsideProtectedRange(ranges, start + match.index)) {
+        best = cut;
+      }
+    }
+    if (best >= halfway) {
+      return best;
+    }
+    if (fallback === -1 && best > start) {
+      fallback = best;
+    }
+  }
+
+  return fallback > start ? fallback : limit;
+}
+
+/**
+ * Split text into ordered parts of at most `maxLength` characters.
+ * With `numbered`, each part gets a "(1/3)" line and the limit accounts for it.
+ * @returns {string[]}
+ */
+function splitMessageText(text, { maxLength = MAX_PART_LENGTH, numbered = false } = {}) {
+  const trimmed = (text || '').trim();
+  const limit = Math.min(maxLength, MAX_PART_LENGTH) - (numbered ? NUMBERING_RESERVE : 0);
+
+  if (trimmed.length <= Math.min(maxLength, MAX_PART_LENGTH)) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const ranges = findProtectedRanges(trimmed);
+  const parts = [];
+  let start = 0;
+
+  while (start < trimmed.length) {
+    if (trimmed.length - start <= limit) {
+      parts.push(trimmed.slice(start).trim());
+      break;
+    }
+
+    const cut = findBreak(trimmed, start, start + limit, ranges);
+    const part = trimmed.slice(start, cut).trim();
+    if (part) {
+      parts.push(part);
+    }
+    start = cut;
+  }
+
+  const nonEmpty = parts.filter(Boolean);
+  return numbered
+    ? nonEmpty.map((part, index) => `${part}\n(${index + 1}/${nonEmpty.length})`)
+    : nonEmpty;
+}
+
+module.exports = {
+  MAX_PART_LENGTH,
+  MIN_PART_LENGTH,
+  MAX_SPLIT_PARTS,
+  splitMessageText,
+};
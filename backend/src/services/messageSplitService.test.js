@@ -0,0 +1,59 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { MAX_PART_LENGTH, splitMessageText } = require('./messageSplitService');
+
+const sentence = (index) => `This is sentence number ${index} of a long reply.`;
+
+describe('splitMessageText', () => {
+  it('returns short text as a single trimmed part', () => {
+    assert.deepEqual(splitMessageText('  Hello there  '), ['Hello there']);
+    assert.deepEqual(splitMessageText('   '), []);
+  });
+
+  it('keeps every part within the limit and loses no words', () => {
+    const text = Array.from({ length: 200 }, (_, index) => sentence(index)).join(' ');
+    const parts = splitMessageText(text, { maxLength: 500 });
+
+    assert.ok(parts.length > 1);
+    assert.ok(parts.every((part) => part.length <= 500));
+    assert.equal(parts.join(' '), text);
+  });
+
+  it('prefers paragraph breaks over sentence breaks', () => {
+    const first = Array.from({ length: 6 }, (_, index) => sentence(index)).join(' ');
+    const second = Array.from({ length: 6 }, (_, index) => sentence(index + 6)).join(' ');
+    const parts = splitMessageText(`${first}\n\n${second}`, { maxLength: 400 });
+
+    assert.deepEqual(parts, [first, second]);
+  });
+
+  it('never breaks inside a URL or formatting', () => {
+    const url = 'https://example.com/orders/12345?token=abcdefghijklmnopqrstuvwxyz';
+    const text = `${'word '.repeat(70)}${url} *important bold notice* ${'word '.repeat(70)}`;
+    const parts = splitMessageText(text, { maxLength: 400 });
+
+    assert.ok(parts.some((part) => part.includes(url)));
+    assert.ok(parts.some((part) => part.includes('*important bold notice*')));
+  });
+
+  it('hard-cuts text without any break point', () => {
+    const parts = splitMessageText('x'.repeat(1000), { maxLength: 400 });
+    assert.deepEqual(parts.map((part) => part.length), [400, 400, 200]);
+  });
+
+  it('numbers parts and still respects the limit', () => {
+    const text = Array.from({ length: 60 }, (_, index) => sentence(index)).join(' ');
+    const parts = splitMessageText(text, { maxLength: 500, numbered: true });
+
+    parts.forEach((part, index) => {
+      assert.ok(part.endsWith(`\n(${index + 1}/${parts.length})`));
+      assert.ok(part.length <= 500);
+    });
+  });
+
+  it('caps maxLength at the WhatsApp limit', () => {
+    const parts = splitMessageText('word '.repeat(2000), { maxLength: 100000 });
+    assert.ok(parts.every((part) => part.length <= MAX_PART_LENGTH));
+  });
+});
@@ -0,0 +1,205 @@
+const { supabaseAdmin } = require('../config/supabase');
+
+// Lifecycle order; a status can only move forward (failed is terminal)
+const STATUS_RANK = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+// proto.WebMessageInfo.Status -> tracked status
+const WA_STATUS_MAP = {
+  0: 'failed', // ERROR
+  1: 'pending', // PENDING
+  2: 'sent', // SERVER_ACK
+  3: 'delivered', // DELIVERY_ACK
+  4: 'read', // READ
+  5: 'read', // PLAYED (voice notes)
+};
+
+const STATUS_TIMESTAMP_COLUMNS = {
+  sent: 'sent_at',
+  delivered: 'delivered_at',
+  read: 'read_at',
+  failed: 'failed_at',
+};
+
+class MessageStatusService {
+  /**
+   * Map a Baileys numeric/string status to a tracked status
+   * @param {number|string} waStatus
+   * @returns {string|null}
+   */
+  fromWhatsAppStatus(waStatus) {
+    if (typeof waStatus === 'string') {
+      const normalized = waStatus.toUpperCase();
+      const named = { ERROR: 0, PENDING: 1, SERVER_ACK: 2, DELIVERY_ACK: 3, READ: 4, PLAYED: 5 };
+      return WA_STATUS_MAP[named[normalized]] || null;
+    }
+
+    return WA_STATUS_MAP[waStatus] || null;
+  }
+
+  /**
+   * Map a message-receipt.update receipt to a tracked status
+   * @param {object} receipt
+   * @returns {string|null}
+   */
+  fromReceipt(receipt) {
+    if (!receipt) {
+      return null;
+    }
+
+    if (receipt.readTimestamp || receipt.playedTimestamp) {
+      return 'read';
+    }
+
+    if (receipt.receiptTimestamp) {
+      return 'delivered';
+    }
+
+    return null;
+  }
+
+  canTransition(currentStatus, nextStatus) {
+    if (!nextStatus || currentStatus === nextStatus || currentStatus === 'failed') {
+      return false;
+    }
+
+    if (nextStatus === 'failed') {
+      return STATUS_RANK[currentStatus] <= STATUS_RANK.sent;
+    }
+
+    return (STATUS_RANK[nextStatus] ?? -1) > (STATUS_RANK[currentStatus] ?? -1);
+  }
+
+  /**
+   * Persist a pending outbound message before it is handed to WhatsApp
+   * @returns {Promise<object|null>} inserted row, or null if persistence failed
+   */
+  async createPending({ agentId, remoteJid, waMessageId, messageType = 'TEXT', preview = null }) {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from('outbound_messages')
+      .insert({
+        agent_id: agentId,
+        remote_jid: remoteJid,
+        wa_message_id: waMessageId,
+        message_type: messageType,
+        content_preview: typeof preview === 'string' ? preview.slice(0, 200) : null,
+        status: 'pending',
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Tracking must never block sending
+      console.error('[DELIVERY] ❌ Failed to persist outbound message:', error.message);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Apply a status transition for an outbound message identified by its WhatsApp id
+   * @returns {Promise<object|null>} the updated row when the status changed
+   */
+  async updateStatus(agentId, waMessageId, nextStatus, details = {}) {
+    if (!waMessageId || !nextStatus) {
+      return null;
+    }
+
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from('outbound_messages')
+      .select('id, status')
+      .eq('agent_id', agentId)
+      .eq('wa_message_id', waMessageId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('[DELIVERY] ❌ Failed to load outbound message:', fetchError.message);
+      return null;
+    }
+
+    if (!current || !this.canTransition(current.status, nextStatus)) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const update = {
+      status: nextStatus,
+      updated_at: now,
+      [STATUS_TIMESTAMP_COLUMNS[nextStatus]]: details.at || now,
+    };
+
+    if (nextStatus === 'failed' && details.error) {
+      update.error_message = String(details.error).slice(0, 500);
+    }
+
+    // Guard on the previous status so concurrent receipts cannot move the status backwards
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('outbound_messages')
+      .update(update)
+      .eq('id', current.id)
+      .eq('status', current.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[DELIVERY] ❌ Failed to update outbound status:', updateError.message);
+      return null;
+    }
+
+    if (updated) {
+      console.log(`[DELIVERY] 📬 ${waMessageId}: ${current.status} → ${nextStatus}`);
+    }
+
+    return updated ? { ...updated, previous_status: current.status } : null;
+  }
+
+  async getMessage(agentId, id) {
+    // Accept either the tracking id (uuid) or the WhatsApp message id
+    const column = /^[0-9a-f-]{36}$/i.test(id) ? 'id' : 'wa_message_id';
+
+    const { data, error } = await supabaseAdmin
+      .from('outbound_messages')
+      .select('*')
+      .eq('agent_id', agentId)
+      .eq(column, id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async listMessages(agentId, { status, limit = 50, offset = 0 } = {}) {
+    let query = supabaseAdmin
+      .from('outbound_messages')
+      .select('*', { count: 'exact' })
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return { messages: data || [], total: count || 0 };
+  }
+}
+
+module.exports = new MessageStatusService();
@@ -0,0 +1,47 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const messageStatusService = require('./messageStatusService');
+
+describe('messageStatusService.canTransition', () => {
+  it('only moves forward through pending, sent, delivered and read', () => {
+    assert.equal(messageStatusService.canTransition('pending', 'sent'), true);
+    assert.equal(messageStatusService.canTransition('sent', 'read'), true);
+    assert.equal(messageStatusService.canTransition('delivered', 'sent'), false);
+    assert.equal(messageStatusService.canTransition('read', 'delivered'), false);
+  });
+
+  it('ignores repeated and missing statuses', () => {
+    assert.equal(messageStatusService.canTransition('delivered', 'delivered'), false);
+    assert.equal(messageStatusService.canTransition('sent', null), false);
+  });
+
+  it('allows failing a message only until it reached the server', () => {
+    assert.equal(messageStatusService.canTransition('pending', 'failed'), true);
+    assert.equal(messageStatusService.canTransition('sent', 'failed'), true);
+    assert.equal(messageStatusService.canTransition('delivered', 'failed'), false);
+  });
+
+  it('treats failed as terminal', () => {
+    assert.equal(messageStatusService.canTransition('failed', 'sent'), false);
+    assert.equal(messageStatusService.canTransition('failed', 'read'), false);
+  });
+});
+
+describe('messageStatusService.fromWhatsAppStatus', () => {
+  it('maps numeric and named Baileys statuses', () => {
+    assert.equal(messageStatusService.fromWhatsAppStatus(2), 'sent');
+    assert.equal(messageStatusService.fromWhatsAppStatus(3), 'delivered');
+    assert.equal(messageStatusService.fromWhatsAppStatus('PLAYED'), 'read');
+    assert.equal(messageStatusService.fromWhatsAppStatus('error'), 'failed');
+    assert.equal(messageStatusService.fromWhatsAppStatus(9), null);
+  });
+});
+
+describe('messageStatusService.fromReceipt', () => {
+  it('prefers read over delivered receipts', () => {
+    assert.equal(messageStatusService.fromReceipt({ receiptTimestamp: 1, readTimestamp: 2 }), 'read');
+    assert.equal(messageStatusService.fromReceipt({ receiptTimestamp: 1 }), 'delivered');
+    assert.equal(messageStatusService.fromReceipt({}), null);
+  });
+});
@@ -0,0 +1,229 @@
+const { supabaseAdmin } = require('../config/supabase');
+
+const DEFAULT_LANGUAGE = 'default';
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+const MAX_MESSAGE_LENGTH = 4096; // WhatsApp message limit
+const MAX_CAPTION_LENGTH = 1024;
+
+class TemplateError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'TemplateError';
+    this.details = details;
+  }
+}
+
+/**
+ * Fill a template body; values fall back to the declared defaults.
+ * @throws {TemplateError} when a variable has neither a value nor a default
+ */
+function renderTemplateBody(template, values = {}) {
+  const defaults = Object.fromEntries(
+    (template.variables || []).map((variable) => [variable.name, variable.defaultValue])
+  );
+  const missing = [];
+
+  const text = template.body.replace(TEMPLATE_VARIABLE_REGEX, (_, name) => {
+    const value = values[name] ?? defaults[name];
+    if (value === undefined || value === null) {
+      missing.push(name);
+      return '';
+    }
+    return String(value);
+  });
+
+  if (missing.length > 0) {
+    throw new TemplateError(
+      'Missing template variables',
+      `Template "${template.name}" requires: ${[...new Set(missing)].join(', ')}`
+    );
+  }
+
+  return text.trim();
+}
+
+async function listTemplates(agentId) {
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('name', { ascending: true })
+    .order('language', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+async function getTemplate(agentId, templateId) {
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+function toTemplateRow(input) {
+  return {
+    ...(input.name !== undefined && { name: input.name }),
+    ...(input.language !== undefined && { language: input.language || DEFAULT_LANGUAGE }),
+    ...(input.body !== undefined && { body: input.body }),
+    ...(input.variables !== undefined && { variables: input.variables }),
+    ...(input.media !== undefined && { media: input.media || null }),
+    ...(input.description !== undefined && { description: input.description || null }),
+  };
+}
+
+function mapWriteError(error) {
+  if (error.code === '23505') {
+    return new TemplateError('Template already exists', 'A template with this name and language already exists');
+  }
+  return error;
+}
+
+async function createTemplate(agentId, input) {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .insert({
+      agent_id: agentId,
+      language: DEFAULT_LANGUAGE,
+      variables: [],
+      ...toTemplateRow(input),
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw mapWriteError(error);
+  }
+
+  return data;
+}
+
+async function updateTemplate(agentId, templateId, input) {
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .update({ ...toTemplateRow(input), updated_at: new Date().toISOString() })
+    .eq('agent_id', agentId)
+    .eq('id', templateId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw mapWriteError(error);
+  }
+
+  return data;
+}
+
+async function deleteTemplate(agentId, templateId) {
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .delete()
+    .eq('agent_id', agentId)
+    .eq('id', templateId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Find the best language variant of a named template:
+ * exact language ("en-US"), then base language ("en"), then the default variant
+ */
+async function findTemplateVariant(agentId, name, language) {
+  const { data, error } = await supabaseAdmin
+    .from('message_templates')
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('name', name);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new TemplateError('Template not found', `No template named "${name}" for this agent`);
+  }
+
+  const requested = (language || '').toLowerCase();
+  const candidates = [requested, requested.split('-')[0], DEFAULT_LANGUAGE].filter(Boolean);
+
+  for (const candidate of candidates) {
+    const variant = data.find((template) => template.language.toLowerCase() === candidate);
+    if (variant) {
+      return variant;
+    }
+  }
+
+  if (requested) {
+    throw new TemplateError(
+      'Template language not available',
+      `Template "${name}" has no "${language}" or default variant (available: ${data.map((t) => t.language).join(', ')})`
+    );
+  }
+
+  return data[0];
+}
+
+/**
+ * Resolve a template reference into a sendMessage payload ({ text } or { media })
+ * @throws {TemplateError}
+ */
+async function buildTemplateMessage(agentId, { name, language, variables }) {
+  const template = await findTemplateVariant(agentId, name, language);
+  const text = renderTemplateBody(template, variables);
+
+  if (template.media) {
+    if (text.length > MAX_CAPTION_LENGTH) {
+      throw new TemplateError('Rendered caption too long', `Media captions must be less than ${MAX_CAPTION_LENGTH} characters`);
+    }
+
+    return {
+      media: {
+        ...template.media,
+        caption: template.media.type !== 'audio' ? text || undefined : undefined,
+      },
+    };
+  }
+
+  if (!text) {
+    throw new TemplateError('Rendered message is empty', `Template "${template.name}" rendered to an empty message`);
+  }
+
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw new TemplateError('Rendered message too long', `Message must be less than ${MAX_MESSAGE_LENGTH} characters (WhatsApp limit)`);
+  }
+
+  return { text };
+}
+
+module.exports = {
+  DEFAULT_LANGUAGE,
+  TemplateError,
+  renderTemplateBody,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  buildTemplateMessage,
+};
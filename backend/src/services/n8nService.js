@@ -1,6 +1,8 @@
 require('dotenv').config();
 const pool = require('../database');
 const { supabaseAdmin } = require('../config/supabase');
+const { buildSignatureHeaders } = require('./webhookSignatureService');
+const { resolveInboundWebhookUrl } = require('./inboundWebhookService');
 
 // Webhook environment configuration
 const WEBHOOK_ENV = process.env.WEBHOOK_ENV || 'production';
@@ -22,12 +24,15 @@ async function sleep(ms) {
 }
 
 /**
- * Get webhook URL for an agent (can be customized per agent in the future)
+ * Get webhook URL for an agent: its configured URL (or test URL while test mode is on),
+ * otherwise the default URL based on environment
  */
-function getWebhookUrl(agentId) {
-  // For now, use the default URL based on environment
-  // In the future, this could check agent-specific webhook URLs
-  return DEFAULT_WEBHOOK_URL;
+function getWebhookUrl(agentId, inboundWebhookSettings) {
+  const { url, source } = resolveInboundWebhookUrl(inboundWebhookSettings, DEFAULT_WEBHOOK_URL);
+  if (source !== 'environment') {
+    console.log(`[N8N] 🎯 Using ${source === 'agent-test' ? 'test ' : ''}webhook URL configured for agent ${agentId}`);
+  }
+  return url;
 }
 
 /**
@@ -55,13 +60,18 @@ async function logWebhookExecution(agentId, webhookUrl, payload, status, respons
 async function triggerN8nWebhook(agentId, payload) {
   // CRITICAL: Fetch user_id from agents table before sending webhook
   let userId = null;
+  let webhookSecret = null;
+  let inboundWebhookSettings = null;
   try {
     const { data: agentData, error: agentError } = await supabaseAdmin
       .from('agents')
-      .select('user_id')
+      .select('user_id, webhook_secret, inbound_webhook_settings')
       .eq('id', agentId)
       .single();
 
+    webhookSecret = agentData?.webhook_secret || null;
+    inboundWebhookSettings = agentData?.inbound_webhook_settings || null;
+
     if (agentError) {
       console.error(`[N8N] ❌ Failed to fetch agent user_id:`, agentError.message);
       // Continue without user_id rather than failing completely
@@ -91,11 +101,12 @@ async function triggerN8nWebhook(agentId, payload) {
         ...(userId && { user_id: userId }), // Include user_id at root level if payload is flat
       };
 
-  const webhookUrl = getWebhookUrl(agentId);
+  const webhookUrl = getWebhookUrl(agentId, inboundWebhookSettings);
+  const body = JSON.stringify(enhancedPayload);
   const isTestWebhook = webhookUrl.includes('/webhook-test/');
   
   console.log(`[N8N] 🔗 Triggering webhook for agent ${agentId} (attempt 1/${MAX_ATTEMPTS})`);
-  console.log(`[N8N] 📊 Payload size: ${JSON.stringify(enhancedPayload).length} bytes`);
+  console.log(`[N8N] 📊 Payload size: ${body.length} bytes`);
   console.log(`[N8N] 🌐 Webhook URL: ${webhookUrl}`);
   console.log(`[N8N] 🔧 Mode: ${isTestWebhook ? 'TEST' : 'PRODUCTION'}`);
   if (userId) {
@@ -118,9 +129,11 @@ async function triggerN8nWebhook(agentId, payload) {
           'X-Webhook-Env': WEBHOOK_ENV,
           'X-Message-Type': enhancedPayload.body?.messageType || enhancedPayload.messageType || 'text',
           'X-Sender-Phone': enhancedPayload.body?.from || enhancedPayload.senderPhone || 'unknown',
-          ...(userId && { 'X-User-ID': userId }) // Include user_id in header as well
+          ...(userId && { 'X-User-ID': userId }), // Include user_id in header as well
+          // Re-signed per attempt so retries stay inside n8n's timestamp window
+          ...(webhookSecret && buildSignatureHeaders(webhookSecret, body))
         },
-        body: JSON.stringify(enhancedPayload),
+        body,
         signal: controller.signal,
       });
       clearTimeout(timer);
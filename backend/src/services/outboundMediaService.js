@@ -0,0 +1,281 @@
+const axios = require('axios');
+const dns = require('dns');
+const https = require('https');
+const net = require('net');
+
+const MEDIA_DOWNLOAD_TIMEOUT_MS = 30000;
+const MEDIA_MAX_REDIRECTS = 3;
+
+// media.url must never reach the server's own network: loopback, private, link-local (cloud metadata),
+// CGNAT, multicast and reserved ranges are refused, for the first request and every redirect
+// (IPv4-mapped IPv6 addresses are matched against the IPv4 ranges by BlockList itself)
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// Outbound limits follow WhatsApp's own caps (documents are capped lower to bound memory use)
+const OUTBOUND_MEDIA_RULES = {
+  image: {
+    maxBytes: 5 * 1024 * 1024, // 5MB
+    mimetypes: ['image/jpeg', 'image/png', 'image/webp'],
+  },
+  video: {
+    maxBytes: 16 * 1024 * 1024, // 16MB
+    mimetypes: ['video/mp4', 'video/3gpp'],
+  },
+  audio: {
+    maxBytes: 16 * 1024 * 1024, // 16MB
+    mimetypes: ['audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/amr'],
+  },
+  document: {
+    maxBytes: Number(process.env.OUTBOUND_MAX_DOCUMENT_BYTES) || 50 * 1024 * 1024, // 50MB
+    mimetypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/plain',
+      'text/csv',
+      'application/zip',
+    ],
+  },
+};
+
+const MEDIA_TYPES = Object.keys(OUTBOUND_MEDIA_RULES);
+
+class MediaPayloadError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'MediaPayloadError';
+    this.details = details;
+  }
+}
+
+function isPublicAddress(address) {
+  const family = net.isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL hostnames keep IPv6 literals in brackets ("[::1]")
+function isBlockedHostname(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+  return net.isIP(host) !== 0 && !isPublicAddress(host);
+}
+
+/**
+ * dns.lookup that refuses hosts resolving to a non-public address. Used as the socket lookup,
+ * so the address that was checked is the one connected to (a rebinding DNS answer cannot slip through).
+ */
+function publicOnlyLookup(hostname, options, callback) {
+  const lookupOptions = typeof options === 'object' ? options : { family: options };
+
+  dns.lookup(hostname, { ...lookupOptions, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+
+    if (addresses.some((entry) => !isPublicAddress(entry.address))) {
+      return callback(new MediaPayloadError('Media URL not allowed', `${hostname} resolves to a private or local address`));
+    }
+
+    return lookupOptions.all
+      ? callback(null, addresses)
+      : callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const mediaHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+// Redirect targets are checked like the original URL (IP literals skip the lookup above)
+function checkRedirect(options) {
+  if (options.protocol !== 'https:') {
+    throw new MediaPayloadError('Media URL not allowed', 'Redirects must stay on HTTPS');
+  }
+  if (isBlockedHostname(options.hostname || '')) {
+    throw new MediaPayloadError('Media URL not allowed', `Redirect to ${options.hostname} is not allowed`);
+  }
+}
+
+function normalizeMimetype(mimetype) {
+  return typeof mimetype === 'string' ? mimetype.split(';')[0].trim().toLowerCase() : null;
+}
+
+/**
+ * Validate the shape of a media payload (no I/O).
+ * Returns an error message string, or null when the payload is well-formed.
+ */
+function validateMediaPayload(media) {
+  if (!media || typeof media !== 'object' || Array.isArray(media)) {
+    return 'media must be an object';
+  }
+
+  if (!MEDIA_TYPES.includes(media.type)) {
+    return `media.type must be one of: ${MEDIA_TYPES.join(', ')}`;
+  }
+
+  const hasUrl = typeof media.url === 'string' && media.url.length > 0;
+  const hasBase64 = typeof media.base64 === 'string' && media.base64.length > 0;
+
+  if (hasUrl === hasBase64) {
+    return 'Provide exactly one of media.url or media.base64';
+  }
+
+  if (hasUrl) {
+    let parsed;
+    try {
+      parsed = new URL(media.url);
+    } catch (error) {
+      return 'media.url must be a valid URL';
+    }
+    if (parsed.protocol !== 'https:') {
+      return 'media.url must use HTTPS';
+    }
+    if (isBlockedHostname(parsed.hostname)) {
+      return 'media.url must point to a public host';
+    }
+  }
+
+  for (const field of ['mimetype', 'fileName', 'caption']) {
+    if (media[field] !== undefined && media[field] !== null && typeof media[field] !== 'string') {
+      return `media.${field} must be a string`;
+    }
+  }
+
+  if (media.caption && media.caption.length > 1024) {
+    return 'media.caption must be less than 1024 characters';
+  }
+
+  if (media.caption && media.type === 'audio') {
+    return 'Audio messages cannot have a caption';
+  }
+
+  return null;
+}
+
+function decodeBase64Media(base64) {
+  // Accept data URLs ("data:application/pdf;base64,....") as well as raw base64
+  const dataUrlMatch = base64.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s);
+  const encoded = dataUrlMatch ? dataUrlMatch[2] : base64;
+
+  return {
+    buffer: Buffer.from(encoded.replace(/\s/g, ''), 'base64'),
+    mimetype: dataUrlMatch ? dataUrlMatch[1] : null,
+    estimatedBytes: Math.floor((encoded.length * 3) / 4),
+  };
+}
+
+async function downloadMedia(url, maxBytes) {
+  try {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: MEDIA_DOWNLOAD_TIMEOUT_MS,
+      maxContentLength: maxBytes,
+      maxRedirects: MEDIA_MAX_REDIRECTS,
+      httpsAgent: mediaHttpsAgent,
+      beforeRedirect: checkRedirect,
+    });
+
+    return {
+      buffer: Buffer.from(response.data),
+      mimetype: response.headers?.['content-type'] || null,
+    };
+  } catch (error) {
+    const cause = error instanceof MediaPayloadError ? error : error.cause;
+    if (cause instanceof MediaPayloadError) {
+      throw cause;
+    }
+    if (error.message?.includes('maxContentLength')) {
+      throw new MediaPayloadError('Media too large', `File exceeds the ${maxBytes} byte limit`);
+    }
+    throw new MediaPayloadError('Failed to download media', error.message);
+  }
+}
+
+/**
+ * Load a validated media payload into a buffer and enforce size and mimetype rules.
+ * @returns {Promise<{ type, buffer, mimetype, fileName, caption, ptt }>}
+ * @throws {MediaPayloadError}
+ */
+async function resolveMediaPayload(media) {
+  const rules = OUTBOUND_MEDIA_RULES[media.type];
+  let loaded;
+
+  if (media.base64) {
+    loaded = decodeBase64Media(media.base64);
+    if (loaded.estimatedBytes > rules.maxBytes) {
+      throw new MediaPayloadError('Media too large', `${media.type} must be at most ${rules.maxBytes} bytes`);
+    }
+  } else {
+    loaded = await downloadMedia(media.url, rules.maxBytes);
+  }
+
+  if (!loaded.buffer || loaded.buffer.length === 0) {
+    throw new MediaPayloadError('Media is empty', 'The provided media contained no data');
+  }
+
+  if (loaded.buffer.length > rules.maxBytes) {
+    throw new MediaPayloadError('Media too large', `${media.type} must be at most ${rules.maxBytes} bytes`);
+  }
+
+  // An explicit mimetype wins over the data URL / Content-Type header
+  const mimetype = normalizeMimetype(media.mimetype) || normalizeMimetype(loaded.mimetype);
+  if (!mimetype || !rules.mimetypes.includes(mimetype)) {
+    throw new MediaPayloadError(
+      'Unsupported media type',
+      `${media.type} mimetype must be one of: ${rules.mimetypes.join(', ')} (got ${mimetype || 'unknown'})`
+    );
+  }
+
+  return {
+    type: media.type,
+    buffer: loaded.buffer,
+    // Voice notes must be sent as ogg/opus to play inline
+    mimetype: media.type === 'audio' && media.ptt ? 'audio/ogg; codecs=opus' : mimetype,
+    fileName: media.fileName || null,
+    caption: media.caption || null,
+    ptt: media.type === 'audio' && Boolean(media.ptt),
+  };
+}
+
+/**
+ * Build the Baileys message content for a resolved media payload
+ */
+function buildMediaMessageContent(resolved) {
+  switch (resolved.type) {
+    case 'image':
+      return { image: resolved.buffer, mimetype: resolved.mimetype, caption: resolved.caption || undefined };
+    case 'video':
+      return { video: resolved.buffer, mimetype: resolved.mimetype, caption: resolved.caption || undefined };
+    case 'audio':
+      return { audio: resolved.buffer, mimetype: resolved.mimetype, ptt: resolved.ptt };
+    case 'document':
+      return {
+        document: resolved.buffer,
+        mimetype: resolved.mimetype,
+        fileName: resolved.fileName || 'document',
+        caption: resolved.caption || undefined,
+      };
+    default:
+      throw new MediaPayloadError('Unsupported media type', `Unknown media type: ${resolved.type}`);
+  }
+}
+
+module.exports = {
+  MEDIA_TYPES,
+  OUTBOUND_MEDIA_RULES,
+  MediaPayloadError,
+  validateMediaPayload,
+  resolveMediaPayload,
+  buildMediaMessageContent,
+};
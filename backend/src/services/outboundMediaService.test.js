@@ -0,0 +1,46 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { validateMediaPayload } = require('./outboundMediaService');
+
+describe('validateMediaPayload', () => {
+  it('accepts a public HTTPS URL or base64 data', () => {
+    assert.equal(validateMediaPayload({ type: 'image', url: 'https://cdn.example.com/a.png' }), null);
+    assert.equal(validateMediaPayload({ type: 'document', base64: 'data:application/pdf;base64,JVBERi0=' }), null);
+  });
+
+  it('requires exactly one source', () => {
+    assert.equal(validateMediaPayload({ type: 'image' }), 'Provide exactly one of media.url or media.base64');
+    assert.equal(
+      validateMediaPayload({ type: 'image', url: 'https://example.com/a.png', base64: 'AAAA' }),
+      'Provide exactly one of media.url or media.base64'
+    );
+  });
+
+  it('rejects unknown types and plain HTTP', () => {
+    assert.match(validateMediaPayload({ type: 'gif', url: 'https://example.com/a.gif' }), /^media\.type must be one of/);
+    assert.equal(validateMediaPayload({ type: 'image', url: 'http://example.com/a.png' }), 'media.url must use HTTPS');
+  });
+
+  it('rejects loopback, private and link-local hosts', () => {
+    for (const url of [
+      'https://localhost/a.png',
+      'https://127.0.0.1/a.png',
+      'https://10.0.0.5/a.png',
+      'https://192.168.1.10/a.png',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/a.png',
+      'https://[fe80::1]/a.png',
+      'https://[::ffff:10.0.0.1]/a.png',
+    ]) {
+      assert.equal(validateMediaPayload({ type: 'image', url }), 'media.url must point to a public host', url);
+    }
+  });
+
+  it('does not allow captions on audio', () => {
+    assert.equal(
+      validateMediaPayload({ type: 'audio', url: 'https://example.com/a.ogg', caption: 'hi' }),
+      'Audio messages cannot have a caption'
+    );
+  });
+});
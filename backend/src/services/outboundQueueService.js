@@ -0,0 +1,457 @@
+const os = require('os');
+const { randomUUID } = require('crypto');
+const { supabaseAdmin } = require('../config/supabase');
+const { sendMessage, activeSessions, MessageReferenceError } = require('./baileysService');
+const { MediaPayloadError } = require('./outboundMediaService');
+const { SuppressedRecipientError } = require('./consentService');
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const QUEUE_POLL_INTERVAL_MS = Number(process.env.OUTBOUND_QUEUE_POLL_MS) || 1000;
+const QUEUE_LOCK_TIMEOUT_MS = 2 * 60 * 1000; // a crashed worker's claim is released after this
+const QUEUE_DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // undelivered messages expire after 24h
+const QUEUE_MAX_BACKOFF_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+const DUE_SCAN_LIMIT = 20; // enough to look past a split message (up to 10 parts) waiting on a retried part
+
+const DEFAULT_QUEUE_SETTINGS = {
+  messagesPerMinute: 20,
+  jitterSeconds: 3,
+};
+
+// Errors raised while the socket is reconnecting; retried without counting as a delivery failure
+const TRANSIENT_ERROR_PATTERNS = ['not connected', 'connection closed', 'connection lost', 'timed out', 'econnreset'];
+
+const nextAllowedSendAt = new Map(); // agentId -> timestamp ms, shared with campaigns
+const sendingAgents = new Set(); // agents with a send in flight (humanized sends take seconds)
+const settingsCache = new Map(); // agentId -> { settings, fetchedAt }
+let workerInterval = null;
+let isTicking = false;
+
+function normalizeQueueSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const perMinute = Number(source.messagesPerMinute);
+  const jitter = Number(source.jitterSeconds);
+
+  return {
+    messagesPerMinute: Number.isFinite(perMinute) && perMinute > 0 ? perMinute : DEFAULT_QUEUE_SETTINGS.messagesPerMinute,
+    jitterSeconds: Number.isFinite(jitter) && jitter >= 0 ? jitter : DEFAULT_QUEUE_SETTINGS.jitterSeconds,
+  };
+}
+
+async function getQueueSettings(agentId) {
+  const cached = settingsCache.get(agentId);
+  if (cached && Date.now() - cached.fetchedAt < SETTINGS_CACHE_TTL_MS) {
+    return cached.settings;
+  }
+
+  const { data } = await supabaseAdmin
+    .from('agents')
+    .select('outbound_queue_settings')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  const settings = normalizeQueueSettings(data?.outbound_queue_settings);
+  settingsCache.set(agentId, { settings, fetchedAt: Date.now() });
+  return settings;
+}
+
+/**
+ * Per-agent send pacing shared by the queue and campaigns, so an agent with a campaign running
+ * while its queue drains still sends at most one message per interval.
+ */
+function isSendThrottled(agentId) {
+  return Date.now() < (nextAllowedSendAt.get(agentId) || 0);
+}
+
+// Book the agent's next send slot: 60s / messagesPerMinute plus up to jitterSeconds
+function reserveSendSlot(agentId, { messagesPerMinute, jitterSeconds }) {
+  const intervalMs = 60000 / messagesPerMinute;
+  const jitterMs = Math.random() * (jitterSeconds || 0) * 1000;
+  nextAllowedSendAt.set(agentId, Date.now() + intervalMs + jitterMs);
+}
+
+function isTransientError(error) {
+  const message = (error?.message || '').toLowerCase();
+  return TRANSIENT_ERROR_PATTERNS.some((pattern) => message.includes(pattern));
+}
+
+function isSessionHealthy(agentId) {
+  const session = activeSessions.get(agentId);
+  return Boolean(session?.isConnected && session.socket);
+}
+
+function buildQueueRow(agentId, to, payload, options, now) {
+  return {
+    agent_id: agentId,
+    recipient: to,
+    payload: typeof payload === 'string' ? { text: payload } : payload,
+    options: {
+      source: options.source || 'api',
+      requestId: options.requestId || null,
+    },
+    status: 'queued',
+    attempts: 0,
+    max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    next_attempt_at: new Date(options.sendAt || now).toISOString(),
+    expires_at: new Date(options.expiresAt || now + QUEUE_DEFAULT_TTL_MS).toISOString(),
+    created_at: new Date(now).toISOString(),
+    updated_at: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Add a message to the agent's outbound queue.
+ * `payload` is what sendMessage accepts (string or { text, media }); `options` carries source/requestId
+ * and optionally expiresAt (ms) to give up sooner than the default 24h.
+ * @returns {Promise<object>} the queued row
+ */
+async function enqueueMessage(agentId, to, payload, options = {}) {
+  const [queued] = await enqueueMessages(agentId, to, [payload], options);
+  return queued;
+}
+
+/**
+ * Queue several messages to one recipient in a single insert, so either all of them are queued or none.
+ * Each message depends on the previous one: it is sent only after that one was sent, and fails
+ * if that one failed or was cancelled. `options.partDelayMs` staggers their first attempts.
+ * @returns {Promise<object[]>} the queued rows, in the order given
+ */
+async function enqueueMessages(agentId, to, payloads, options = {}) {
+  const now = Date.now();
+  const firstSendAt = options.sendAt || now;
+  const ids = payloads.map(() => randomUUID());
+  const rows = payloads.map((payload, index) => ({
+    ...buildQueueRow(agentId, to, payload, {
+      ...options,
+      sendAt: firstSendAt + index * (options.partDelayMs || 0),
+    }, now),
+    id: ids[index],
+    depends_on: index > 0 ? ids[index - 1] : null,
+  }));
+
+  const { data, error } = await supabaseAdmin
+    .from('outbound_queue')
+    .insert(rows)
+    .select('id, agent_id, recipient, status, next_attempt_at, created_at');
+
+  if (error) {
+    throw new Error(`Failed to queue message: ${error.message}`);
+  }
+
+  const queued = ids.map((id) => data.find((item) => item.id === id));
+  console.log(`[QUEUE] 📥 Queued ${queued.map((item) => item.id).join(', ')} for agent ${agentId}`);
+  return queued;
+}
+
+// Claim a row atomically so overlapping instances never send the same message twice
+async function claimQueueItem(item) {
+  const { data, error } = await supabaseAdmin
+    .from('outbound_queue')
+    .update({
+      status: 'sending',
+      locked_by: WORKER_ID,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[QUEUE] ❌ Failed to claim queue item:', error.message);
+    return null;
+  }
+
+  return data;
+}
+
+async function completeQueueItem(item, update) {
+  const { error } = await supabaseAdmin
+    .from('outbound_queue')
+    .update({
+      ...update,
+      locked_by: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('locked_by', WORKER_ID);
+
+  if (error) {
+    console.error('[QUEUE] ❌ Failed to update queue item:', error.message);
+  }
+}
+
+async function processQueueItem(item) {
+  const claimed = await claimQueueItem(item);
+  if (!claimed) {
+    return;
+  }
+
+  const attempts = claimed.attempts + 1;
+
+  try {
+    const result = await sendMessage(claimed.agent_id, claimed.recipient, claimed.payload, claimed.options);
+
+    await completeQueueItem(claimed, {
+      status: 'sent',
+      attempts,
+      sent_at: new Date().toISOString(),
+      wa_message_id: result?.messageId || null,
+      tracking_id: result?.trackingId || null,
+      last_error: null,
+    });
+
+    console.log(`[QUEUE] ✅ Sent ${claimed.id} (${result?.messageId})`);
+  } catch (error) {
+    const permanent = error instanceof MediaPayloadError ||
+      error instanceof MessageReferenceError ||
+      error instanceof SuppressedRecipientError;
+    const exhausted = attempts >= claimed.max_attempts;
+
+    if (!permanent && isTransientError(error) && !isSessionHealthy(claimed.agent_id)) {
+      // Socket dropped mid-send: requeue without spending an attempt
+      await completeQueueItem(claimed, { status: 'queued', last_error: error.message });
+      console.warn(`[QUEUE] ⏸️ ${claimed.id} requeued, session not healthy: ${error.message}`);
+      return;
+    }
+
+    if (permanent || exhausted) {
+      await completeQueueItem(claimed, {
+        status: 'failed',
+        attempts,
+        failed_at: new Date().toISOString(),
+        last_error: permanent && error.details ? `${error.message}: ${error.details}` : error.message,
+      });
+      console.error(`[QUEUE] ❌ ${claimed.id} failed after ${attempts} attempt(s): ${error.message}`);
+      return;
+    }
+
+    const backoffMs = Math.min(QUEUE_MAX_BACKOFF_MS, 5000 * 2 ** (attempts - 1));
+    await completeQueueItem(claimed, {
+      status: 'queued',
+      attempts,
+      next_attempt_at: new Date(Date.now() + backoffMs).toISOString(),
+      last_error: error.message,
+    });
+    console.warn(`[QUEUE] 🔁 ${claimed.id} retry ${attempts}/${claimed.max_attempts} in ${backoffMs}ms: ${error.message}`);
+  }
+}
+
+async function releaseStaleAndExpired() {
+  const now = new Date();
+
+  await supabaseAdmin
+    .from('outbound_queue')
+    .update({ status: 'queued', locked_by: null, locked_at: null, updated_at: now.toISOString() })
+    .eq('status', 'sending')
+    .lt('locked_at', new Date(now.getTime() - QUEUE_LOCK_TIMEOUT_MS).toISOString());
+
+  await supabaseAdmin
+    .from('outbound_queue')
+    .update({
+      status: 'failed',
+      failed_at: now.toISOString(),
+      last_error: 'Expired before the WhatsApp session became available',
+      updated_at: now.toISOString(),
+    })
+    .eq('status', 'queued')
+    .lt('expires_at', now.toISOString());
+}
+
+// A part of a split message whose previous part failed or was cancelled can never be sent in order
+async function failOrphanedPart(item) {
+  await supabaseAdmin
+    .from('outbound_queue')
+    .update({
+      status: 'failed',
+      failed_at: new Date().toISOString(),
+      last_error: 'Previous part of the message was not sent',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('status', 'queued');
+
+  console.error(`[QUEUE] ❌ ${item.id} failed: previous part ${item.depends_on} was not sent`);
+}
+
+/**
+ * FIFO per agent: the oldest due message is sent first. Split-message parts wait for
+ * their previous part, so a part retried with backoff is never overtaken by the next one.
+ */
+async function getNextDueItem(agentId) {
+  const { data: dueItems, error } = await supabaseAdmin
+    .from('outbound_queue')
+    .select('id, agent_id, depends_on, created_at')
+    .eq('agent_id', agentId)
+    .eq('status', 'queued')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .order('next_attempt_at', { ascending: true })
+    .limit(DUE_SCAN_LIMIT);
+
+  if (error) {
+    console.error(`[QUEUE] ❌ Failed to load due messages for agent ${agentId}:`, error.message);
+    return null;
+  }
+
+  const dependencyIds = (dueItems || []).map((item) => item.depends_on).filter(Boolean);
+  const dependencyStatus = new Map();
+  if (dependencyIds.length > 0) {
+    const { data: dependencies, error: dependencyError } = await supabaseAdmin
+      .from('outbound_queue')
+      .select('id, status')
+      .in('id', dependencyIds);
+
+    if (dependencyError) {
+      console.error(`[QUEUE] ❌ Failed to load previous parts for agent ${agentId}:`, dependencyError.message);
+      return null;
+    }
+    for (const dependency of dependencies || []) {
+      dependencyStatus.set(dependency.id, dependency.status);
+    }
+  }
+
+  for (const item of dueItems || []) {
+    // A deleted previous part (depends_on set to NULL) no longer blocks
+    const previousStatus = item.depends_on ? dependencyStatus.get(item.depends_on) || 'sent' : 'sent';
+
+    if (previousStatus === 'sent') {
+      return item;
+    }
+    if (previousStatus === 'failed' || previousStatus === 'cancelled') {
+      await failOrphanedPart(item);
+    }
+  }
+
+  return null;
+}
+
+async function processQueueTick() {
+  if (isTicking) {
+    return;
+  }
+  isTicking = true;
+
+  try {
+    await releaseStaleAndExpired();
+
+    // Only agents with a healthy session here can send; each is asked for its own oldest due message,
+    // so a large backlog on one agent never holds up the others
+    for (const agentId of activeSessions.keys()) {
+      // Delivery resumes automatically once the session in activeSessions is healthy again
+      if (
+        !isSessionHealthy(agentId) ||
+        sendingAgents.has(agentId) ||
+        isSendThrottled(agentId)
+      ) {
+        continue;
+      }
+
+      const item = await getNextDueItem(agentId);
+      if (!item) {
+        continue;
+      }
+
+      reserveSendSlot(agentId, await getQueueSettings(agentId));
+
+      // Not awaited: a humanized send (typing delay) paces only its own agent, and the tick moves on
+      sendingAgents.add(agentId);
+      processQueueItem(item)
+        .catch((error) => console.error(`[QUEUE] ❌ Failed to process ${item.id}:`, error.message))
+        .finally(() => sendingAgents.delete(agentId));
+    }
+  } catch (error) {
+    console.error('[QUEUE] ❌ Queue tick failed:', error.message);
+  } finally {
+    isTicking = false;
+  }
+}
+
+function startOutboundQueueWorker() {
+  if (workerInterval) {
+    return;
+  }
+
+  console.log(`[QUEUE] 🚚 Outbound queue worker started (${WORKER_ID}, every ${QUEUE_POLL_INTERVAL_MS}ms)`);
+  workerInterval = setInterval(processQueueTick, QUEUE_POLL_INTERVAL_MS);
+}
+
+function stopOutboundQueueWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+async function getQueueItem(agentId, queueId) {
+  const { data, error } = await supabaseAdmin
+    .from('outbound_queue')
+    .select('id, agent_id, recipient, status, attempts, max_attempts, next_attempt_at, last_error, wa_message_id, tracking_id, sent_at, failed_at, created_at, updated_at')
+    .eq('agent_id', agentId)
+    .eq('id', queueId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+async function listQueueItems(agentId, { status, limit = 50, offset = 0 } = {}) {
+  let query = supabaseAdmin
+    .from('outbound_queue')
+    .select('id, recipient, status, attempts, max_attempts, next_attempt_at, last_error, wa_message_id, sent_at, failed_at, created_at', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return { items: data || [], total: count || 0 };
+}
+
+/**
+ * Cancel a message that has not been sent yet
+ * @returns {Promise<object|null>} the cancelled row, or null if it was no longer queued
+ */
+async function cancelQueueItem(agentId, queueId) {
+  const { data, error } = await supabaseAdmin
+    .from('outbound_queue')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('agent_id', agentId)
+    .eq('id', queueId)
+    .eq('status', 'queued')
+    .select('id, status')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+module.exports = {
+  enqueueMessage,
+  enqueueMessages,
+  getQueueItem,
+  listQueueItems,
+  cancelQueueItem,
+  normalizeQueueSettings,
+  isSendThrottled,
+  reserveSendSlot,
+  startOutboundQueueWorker,
+  stopOutboundQueueWorker,
+};
@@ -0,0 +1,271 @@
+const os = require('os');
+const { supabaseAdmin } = require('../config/supabase');
+const { activeSessions } = require('./baileysService');
+const { enqueueMessage } = require('./outboundQueueService');
+const { isValidTimezone, zonedTimeToUtc } = require('./timezoneService');
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const SCHEDULER_POLL_INTERVAL_MS = Number(process.env.SCHEDULED_MESSAGES_POLL_MS) || 15000;
+const SCHEDULER_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+// A message still undelivered this long after its due time (e.g. agent offline) is marked failed
+const SCHEDULER_MAX_LATENESS_MS = 6 * 60 * 60 * 1000;
+const SCHEDULER_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TIMEZONE = 'UTC';
+
+let workerInterval = null;
+let isTicking = false;
+
+async function getAgentTimezone(agentId) {
+  const { data } = await supabaseAdmin
+    .from('agents')
+    .select('timezone')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  return data?.timezone && isValidTimezone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Resolve when a message is due: `sendAt` is an absolute ISO timestamp, `localTime` is a
+ * wall-clock time in `timezone` (defaulting to the agent's timezone)
+ * @returns {Promise<{ scheduledAt: Date|null, timezone: string }>}
+ */
+async function resolveScheduledTime(agentId, { sendAt, localTime, timezone }) {
+  const zone = timezone || await getAgentTimezone(agentId);
+  const scheduledAt = sendAt ? new Date(sendAt) : zonedTimeToUtc(localTime, zone);
+
+  return { scheduledAt, timezone: zone };
+}
+
+/**
+ * Store a message to be sent at `scheduledAt`
+ */
+async function scheduleMessage(agentId, { to, payload, scheduledAt, timezone, localTime, createdBy }) {
+  const { data, error } = await supabaseAdmin
+    .from('scheduled_messages')
+    .insert({
+      agent_id: agentId,
+      created_by: createdBy || null,
+      recipient: to,
+      payload,
+      scheduled_at: scheduledAt.toISOString(),
+      timezone,
+      local_time: localTime || null,
+      status: 'scheduled',
+      attempts: 0,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      next_attempt_at: scheduledAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to schedule message: ${error.message}`);
+  }
+
+  console.log(`[SCHEDULER] 🗓️ Scheduled ${data.id} for agent ${agentId} at ${data.scheduled_at} (${timezone})`);
+  return data;
+}
+
+async function listScheduledMessages(agentId, { status, limit = 50, offset = 0 } = {}) {
+  let query = supabaseAdmin
+    .from('scheduled_messages')
+    .select('*', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('scheduled_at', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return { messages: data || [], total: count || 0 };
+}
+
+/**
+ * Cancel a scheduled message that has not been dispatched yet
+ * @returns {Promise<object|null>} the cancelled row, or null if it already left the schedule
+ */
+async function cancelScheduledMessage(agentId, id) {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('scheduled_messages')
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('agent_id', agentId)
+    .eq('id', id)
+    .eq('status', 'scheduled')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+async function finishScheduledMessage(item, update) {
+  const { error } = await supabaseAdmin
+    .from('scheduled_messages')
+    .update({
+      ...update,
+      locked_by: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('locked_by', WORKER_ID);
+
+  if (error) {
+    console.error('[SCHEDULER] ❌ Failed to update scheduled message:', error.message);
+  }
+}
+
+/**
+ * Hand a due message to the outbound queue, which sends it at the agent's throttled pace
+ * and retries it; from then on its delivery is tracked by the queue row in queue_id
+ */
+async function dispatchScheduledMessage(item) {
+  // Claim atomically so only one instance queues a given message
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('scheduled_messages')
+    .update({
+      status: 'sending',
+      locked_by: WORKER_ID,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('status', 'scheduled')
+    .select('*')
+    .maybeSingle();
+
+  if (claimError || !claimed) {
+    return;
+  }
+
+  try {
+    const queued = await enqueueMessage(claimed.agent_id, claimed.recipient, claimed.payload, {
+      source: 'scheduled',
+      requestId: `scheduled-${claimed.id}`,
+      // A message the queue cannot send in time is given up like one that never left the schedule
+      expiresAt: new Date(claimed.scheduled_at).getTime() + SCHEDULER_MAX_LATENESS_MS,
+    });
+
+    await finishScheduledMessage(claimed, {
+      status: 'queued',
+      queue_id: queued.id,
+      queued_at: new Date().toISOString(),
+      last_error: null,
+    });
+
+    console.log(`[SCHEDULER] 📤 Queued scheduled message ${claimed.id} (${queued.id})`);
+  } catch (error) {
+    const attempts = claimed.attempts + 1;
+
+    await finishScheduledMessage(claimed, attempts >= claimed.max_attempts
+      ? {
+        status: 'failed',
+        attempts,
+        failed_at: new Date().toISOString(),
+        last_error: error.message,
+      }
+      : {
+        status: 'scheduled',
+        attempts,
+        next_attempt_at: new Date(Date.now() + SCHEDULER_RETRY_DELAY_MS).toISOString(),
+        last_error: error.message,
+      });
+
+    console.error(`[SCHEDULER] ❌ Scheduled message ${claimed.id} could not be queued (attempt ${attempts}): ${error.message}`);
+  }
+}
+
+async function processSchedulerTick() {
+  if (isTicking) {
+    return;
+  }
+  isTicking = true;
+
+  try {
+    const now = Date.now();
+
+    // Release claims held by an instance that died while queueing
+    await supabaseAdmin
+      .from('scheduled_messages')
+      .update({ status: 'scheduled', locked_by: null, locked_at: null, updated_at: new Date(now).toISOString() })
+      .eq('status', 'sending')
+      .lt('locked_at', new Date(now - SCHEDULER_LOCK_TIMEOUT_MS).toISOString());
+
+    await supabaseAdmin
+      .from('scheduled_messages')
+      .update({
+        status: 'failed',
+        failed_at: new Date(now).toISOString(),
+        last_error: 'Missed: the WhatsApp session was unavailable at the scheduled time',
+        updated_at: new Date(now).toISOString(),
+      })
+      .eq('status', 'scheduled')
+      .lt('scheduled_at', new Date(now - SCHEDULER_MAX_LATENESS_MS).toISOString());
+
+    const { data: dueMessages, error } = await supabaseAdmin
+      .from('scheduled_messages')
+      .select('id, agent_id')
+      .eq('status', 'scheduled')
+      .lte('next_attempt_at', new Date(now).toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(50);
+
+    if (error) {
+      console.error('[SCHEDULER] ❌ Failed to load due messages:', error.message);
+      return;
+    }
+
+    for (const item of dueMessages || []) {
+      // Left scheduled while the session is down, so a message the agent misses shows up as missed
+      if (!activeSessions.get(item.agent_id)?.isConnected) {
+        continue;
+      }
+
+      await dispatchScheduledMessage(item);
+    }
+  } catch (error) {
+    console.error('[SCHEDULER] ❌ Scheduler tick failed:', error.message);
+  } finally {
+    isTicking = false;
+  }
+}
+
+function startScheduledMessageWorker() {
+  if (workerInterval) {
+    return;
+  }
+
+  console.log(`[SCHEDULER] ⏰ Scheduled message worker started (${WORKER_ID}, every ${SCHEDULER_POLL_INTERVAL_MS}ms)`);
+  workerInterval = setInterval(processSchedulerTick, SCHEDULER_POLL_INTERVAL_MS);
+  processSchedulerTick();
+}
+
+function stopScheduledMessageWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+module.exports = {
+  resolveScheduledTime,
+  scheduleMessage,
+  listScheduledMessages,
+  cancelScheduledMessage,
+  startScheduledMessageWorker,
+  stopScheduledMessageWorker,
+};
@@ -0,0 +1,59 @@
+function isValidTimezone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Offset (ms) of `timeZone` from UTC at the given instant
+function getTimezoneOffsetMs(timestamp, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+
+  const value = (type) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time ("2025-12-02T09:00") in an IANA timezone to a UTC Date
+ * @returns {Date|null} null when the local time is malformed
+ */
+function zonedTimeToUtc(localTime, timeZone) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(localTime || '');
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+  // Two passes settle the offset around DST transitions
+  const firstOffset = getTimezoneOffsetMs(wallClock, timeZone);
+  const secondOffset = getTimezoneOffsetMs(wallClock - firstOffset, timeZone);
+  const utc = wallClock - secondOffset;
+
+  // A time skipped by a spring-forward gap matches neither offset; the pre-transition (smaller)
+  // offset moves it forward past the gap, e.g. 02:30 becomes 03:30
+  if (getTimezoneOffsetMs(utc, timeZone) !== secondOffset) {
+    return new Date(wallClock - Math.min(firstOffset, secondOffset));
+  }
+
+  return new Date(utc);
+}
+
+module.exports = {
+  isValidTimezone,
+  zonedTimeToUtc,
+};
@@ -0,0 +1,36 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { isValidTimezone, zonedTimeToUtc } = require('./timezoneService');
+
+describe('isValidTimezone', () => {
+  it('accepts IANA names and rejects anything else', () => {
+    assert.equal(isValidTimezone('Asia/Karachi'), true);
+    assert.equal(isValidTimezone('UTC'), true);
+    assert.equal(isValidTimezone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts a wall-clock time in a fixed-offset zone', () => {
+    assert.equal(zonedTimeToUtc('2025-12-02T09:00', 'Asia/Karachi').toISOString(), '2025-12-02T04:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-12-02T09:00:30', 'UTC').toISOString(), '2025-12-02T09:00:30.000Z');
+  });
+
+  it('uses the offset in effect on that date across DST', () => {
+    assert.equal(zonedTimeToUtc('2025-01-15T09:00', 'Europe/London').toISOString(), '2025-01-15T09:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-07-15T09:00', 'Europe/London').toISOString(), '2025-07-15T08:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-03-09T12:00', 'America/New_York').toISOString(), '2025-03-09T16:00:00.000Z');
+  });
+
+  it('moves a time skipped by the spring-forward gap past the gap', () => {
+    // 02:30 does not exist in New York on 2025-03-09; it lands on 03:30 EDT
+    assert.equal(zonedTimeToUtc('2025-03-09T02:30', 'America/New_York').toISOString(), '2025-03-09T07:30:00.000Z');
+  });
+
+  it('returns null for malformed local times', () => {
+    assert.equal(zonedTimeToUtc('2025-12-02 09:00', 'UTC'), null);
+    assert.equal(zonedTimeToUtc('tomorrow', 'UTC'), null);
+    assert.equal(zonedTimeToUtc(undefined, 'UTC'), null);
+  });
+});
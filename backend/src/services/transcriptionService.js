@@ -0,0 +1,185 @@
+/**
+ * Voice-note transcription.
+ *
+ * Providers implement `transcribe({ buffer, mimetype, language })` and resolve to
+ * `{ text, language }`. The active provider is chosen with TRANSCRIPTION_PROVIDER:
+ *   - "openai": any OpenAI-compatible /audio/transcriptions endpoint
+ *   - "stub":   returns a fixed transcript without network calls (local dev/tests)
+ *   - unset/"none": transcription disabled
+ * Per-agent settings (enabled, maxDurationSeconds, language) live in agents.transcription_settings.
+ */
+
+const DEFAULT_TRANSCRIPTION_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+const DEFAULT_MAX_DURATION_SECONDS = 300; // 5 minutes
+const TRANSCRIPTION_TIMEOUT_MS = Number(process.env.TRANSCRIPTION_TIMEOUT_MS) || 60000;
+
+function getExtensionForUpload(mimetype) {
+  const normalized = (mimetype || '').split(';')[0].trim().toLowerCase();
+  const mapping = {
+    'audio/ogg': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/aac': 'm4a',
+    'audio/webm': 'webm',
+    'audio/wav': 'wav',
+    'audio/amr': 'amr',
+  };
+  return mapping[normalized] || 'ogg';
+}
+
+function createOpenAiCompatibleProvider() {
+  const baseUrl = (process.env.TRANSCRIPTION_API_URL || DEFAULT_TRANSCRIPTION_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+  const model = process.env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL;
+
+  if (!apiKey) {
+    console.warn('[TRANSCRIPTION] ⚠️ TRANSCRIPTION_API_KEY/OPENAI_API_KEY not set; transcription disabled');
+    return null;
+  }
+
+  return {
+    name: 'openai',
+    model,
+    async transcribe({ buffer, mimetype, language }) {
+      const form = new FormData();
+      const fileName = `voice-note.${getExtensionForUpload(mimetype)}`;
+      form.append('file', new Blob([buffer], { type: (mimetype || 'audio/ogg').split(';')[0] }), fileName);
+      form.append('model', model);
+      form.append('response_format', 'json');
+      if (language) {
+        form.append('language', language);
+      }
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: form,
+        signal: AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.text();
+        throw new Error(`Transcription error (${response.status}): ${errorPayload}`);
+      }
+
+      const payload = await response.json();
+      if (typeof payload?.text !== 'string') {
+        throw new Error('Transcription response is malformed');
+      }
+
+      return {
+        text: payload.text.trim(),
+        language: payload.language || language || null,
+      };
+    },
+  };
+}
+
+function createStubProvider() {
+  return {
+    name: 'stub',
+    model: 'stub',
+    async transcribe({ buffer, language }) {
+      return {
+        text: process.env.TRANSCRIPTION_STUB_TEXT || `[stub transcript of ${buffer?.length || 0} bytes]`,
+        language: language || null,
+      };
+    },
+  };
+}
+
+const PROVIDER_FACTORIES = {
+  openai: createOpenAiCompatibleProvider,
+  stub: createStubProvider,
+};
+
+let activeProvider;
+
+function getTranscriptionProvider() {
+  if (activeProvider !== undefined) {
+    return activeProvider;
+  }
+
+  const providerName = (process.env.TRANSCRIPTION_PROVIDER || 'none').toLowerCase();
+  const factory = PROVIDER_FACTORIES[providerName];
+
+  if (!factory) {
+    if (providerName !== 'none') {
+      console.warn(`[TRANSCRIPTION] ⚠️ Unknown provider "${providerName}"; transcription disabled`);
+    }
+    activeProvider = null;
+    return activeProvider;
+  }
+
+  activeProvider = factory();
+  if (activeProvider) {
+    console.log(`[TRANSCRIPTION] 🎙️ Using ${activeProvider.name} provider (${activeProvider.model})`);
+  }
+  return activeProvider;
+}
+
+// Register a custom provider (e.g. a self-hosted engine) under a name usable in TRANSCRIPTION_PROVIDER
+function registerTranscriptionProvider(name, factory) {
+  PROVIDER_FACTORIES[name.toLowerCase()] = factory;
+  activeProvider = undefined;
+}
+
+function normalizeTranscriptionSettings(settings) {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const maxDuration = Number(source.maxDurationSeconds);
+
+  return {
+    enabled: source.enabled !== false,
+    maxDurationSeconds: Number.isFinite(maxDuration) && maxDuration > 0 ? maxDuration : DEFAULT_MAX_DURATION_SECONDS,
+    language: typeof source.language === 'string' && source.language.trim() ? source.language.trim() : null,
+  };
+}
+
+/**
+ * Transcribe a downloaded voice note for an agent.
+ * Never throws: returns { transcript } on success or { skippedReason } / { error } otherwise.
+ */
+async function transcribeAudio({ buffer, mimetype, durationSeconds, settings }) {
+  const provider = getTranscriptionProvider();
+  const agentSettings = normalizeTranscriptionSettings(settings);
+
+  if (!provider) {
+    return { skippedReason: 'no_provider' };
+  }
+
+  if (!agentSettings.enabled) {
+    return { skippedReason: 'disabled' };
+  }
+
+  if (typeof durationSeconds === 'number' && durationSeconds > agentSettings.maxDurationSeconds) {
+    return { skippedReason: 'duration_limit' };
+  }
+
+  try {
+    const startedAt = Date.now();
+    const result = await provider.transcribe({ buffer, mimetype, language: agentSettings.language });
+
+    return {
+      transcript: {
+        text: result.text,
+        language: result.language,
+        provider: provider.name,
+        model: provider.model,
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  } catch (error) {
+    console.error('[TRANSCRIPTION] ❌ Failed to transcribe audio:', error.message);
+    return { error: error.message };
+  }
+}
+
+module.exports = {
+  transcribeAudio,
+  getTranscriptionProvider,
+  registerTranscriptionProvider,
+  normalizeTranscriptionSettings,
+};
@@ -0,0 +1,419 @@
+const os = require('os');
+const axios = require('axios');
+const { supabaseAdmin } = require('../config/supabase');
+const { buildSignatureHeaders } = require('./webhookSignatureService');
+const { getInboundWebhookUrl } = require('./inboundWebhookService');
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const OUTBOX_POLL_INTERVAL_MS = Number(process.env.WEBHOOK_OUTBOX_POLL_MS) || 5000;
+const OUTBOX_MAX_ATTEMPTS = Number(process.env.WEBHOOK_OUTBOX_MAX_ATTEMPTS) || 8;
+const OUTBOX_LOCK_TIMEOUT_MS = 2 * 60 * 1000; // a crashed worker's claim is released after this
+const OUTBOX_BASE_BACKOFF_MS = 15 * 1000; // 15s, 30s, 1m, 2m, ... between attempts
+const OUTBOX_MAX_BACKOFF_MS = 30 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 50;
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Logged messages still carrying forward_payload after this long were never enqueued (crash, outbox write failure)
+const UNQUEUED_MESSAGE_GRACE_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+let workerInterval = null;
+let isTicking = false;
+let lastPurgeAt = 0;
+
+/**
+ * POST a payload to the agent's inbound webhook (signed with the agent's secret).
+ * Never throws.
+ * @returns {Promise<{ delivered: boolean, statusCode: number|null, error: string|null, webhookUrl: string|null }>}
+ */
+async function postToInboundWebhook(agentId, messagePayload) {
+  let webhookUrl = null;
+
+  try {
+    // CRITICAL: Fetch user_id from agents table before sending webhook
+    let userId = null;
+    let webhookSecret = null;
+    let inboundWebhookSettings = null;
+    try {
+      const { data: agentData, error: agentError } = await supabaseAdmin
+        .from('agents')
+        .select('user_id, webhook_secret, inbound_webhook_settings')
+        .eq('id', agentId)
+        .single();
+
+      webhookSecret = agentData?.webhook_secret || null;
+      inboundWebhookSettings = agentData?.inbound_webhook_settings || null;
+
+      if (agentError) {
+        console.error(`[OUTBOX] ❌ Failed to fetch agent user_id:`, agentError.message);
+        // Continue without user_id rather than failing completely
+      } else if (agentData && agentData.user_id) {
+        userId = agentData.user_id;
+      } else {
+        console.warn(`[OUTBOX] ⚠️ Agent ${agentId} has no user_id set in database`);
+      }
+    } catch (fetchError) {
+      console.error(`[OUTBOX] ❌ Error fetching user_id:`, fetchError.message);
+      // Continue without user_id rather than failing completely
+    }
+
+    webhookUrl = getInboundWebhookUrl(inboundWebhookSettings);
+    if (!webhookUrl) {
+      return { delivered: false, statusCode: null, error: 'No inbound webhook configured', webhookUrl };
+    }
+
+    // Construct webhook payload with user_id (snake_case to match database field)
+    const webhookPayload = {
+      agentId,
+      ...(userId && { user_id: userId }), // Include user_id only if it exists
+      ...messagePayload,
+    };
+
+    // Serialize once so the signature covers exactly the bytes n8n receives
+    const body = JSON.stringify(webhookPayload);
+
+    const response = await axios.post(
+      webhookUrl,
+      body,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-WhatsApp-Agent': agentId,
+          'X-WhatsApp-RemoteJid': messagePayload.from || messagePayload.conversationId,
+          ...(webhookSecret && buildSignatureHeaders(webhookSecret, body)),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      }
+    );
+
+    return { delivered: true, statusCode: response.status, error: null, webhookUrl };
+  } catch (error) {
+    const statusCode = error.response?.status || null;
+    const responseData = error.response?.data;
+    const hint = typeof responseData === 'string' ? responseData : responseData ? JSON.stringify(responseData) : error.message;
+
+    return {
+      delivered: false,
+      statusCode,
+      error: `${statusCode ? `HTTP ${statusCode}: ` : ''}${hint}`.slice(0, 1000),
+      webhookUrl,
+    };
+  }
+}
+
+/**
+ * Persist an event for delivery. `eventKey` (e.g. "message:<id>") makes the insert idempotent,
+ * so a redelivered WhatsApp message is only ever forwarded once. With `messageId`, the copy of the
+ * event kept on the message_log row (forward_payload) is cleared once the outbox holds it.
+ * @returns {Promise<object|null>} the outbox row, or null when the event was already recorded
+ */
+async function enqueueWebhookEvent(agentId, payload, { eventKey = null, messageId = null } = {}) {
+  const now = new Date().toISOString();
+  const row = {
+    agent_id: agentId,
+    event_key: eventKey,
+    event_type: payload.event || 'message',
+    message_id: messageId,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: OUTBOX_MAX_ATTEMPTS,
+    next_attempt_at: now,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const query = eventKey
+    ? supabaseAdmin.from('webhook_outbox').upsert(row, { onConflict: 'agent_id,event_key', ignoreDuplicates: true })
+    : supabaseAdmin.from('webhook_outbox').insert(row);
+
+  const { data, error } = await query.select('*');
+
+  if (error) {
+    throw new Error(`Failed to write webhook outbox: ${error.message}`);
+  }
+
+  if (messageId) {
+    const { error: clearError } = await supabaseAdmin
+      .from('message_log')
+      .update({ forward_payload: null, forward_pending_at: null })
+      .eq('agent_id', agentId)
+      .eq('message_id', messageId)
+      .not('forward_payload', 'is', null);
+
+    // Harmless: the recovery scan re-enqueues (a no-op) and clears it later
+    if (clearError) {
+      console.warn(`[OUTBOX] ⚠️ Failed to clear forward_payload of ${messageId}:`, clearError.message);
+    }
+  }
+
+  return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * Enqueue logged messages whose event never made it into the outbox. The live path writes the
+ * log row first and the outbox row right after; this closes the gap when the second write is lost.
+ */
+async function enqueueUnqueuedMessages() {
+  const { data: pending, error } = await supabaseAdmin
+    .from('message_log')
+    .select('agent_id, message_id, forward_payload')
+    .not('forward_payload', 'is', null)
+    .lt('forward_pending_at', new Date(Date.now() - UNQUEUED_MESSAGE_GRACE_MS).toISOString())
+    .order('forward_pending_at', { ascending: true })
+    .limit(OUTBOX_BATCH_SIZE);
+
+  if (error) {
+    console.error('[OUTBOX] ❌ Failed to load unqueued messages:', error.message);
+    return;
+  }
+
+  for (const row of pending || []) {
+    try {
+      const item = await enqueueWebhookEvent(row.agent_id, row.forward_payload, {
+        eventKey: `message:${row.message_id}`,
+        messageId: row.message_id,
+      });
+      if (item) {
+        console.warn(`[OUTBOX] 🩹 Enqueued message ${row.message_id} for agent ${row.agent_id} that was logged but never queued`);
+      }
+    } catch (error) {
+      console.error(`[OUTBOX] ❌ Failed to enqueue logged message ${row.message_id}:`, error.message);
+    }
+  }
+}
+
+// Claim a row atomically so overlapping instances never deliver the same event twice
+async function claimOutboxItem(item) {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_outbox')
+    .update({
+      status: 'delivering',
+      locked_by: WORKER_ID,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[OUTBOX] ❌ Failed to claim outbox item:', error.message);
+    return null;
+  }
+
+  return data;
+}
+
+async function completeOutboxItem(item, update) {
+  const { error } = await supabaseAdmin
+    .from('webhook_outbox')
+    .update({
+      ...update,
+      locked_by: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', item.id)
+    .eq('locked_by', WORKER_ID);
+
+  if (error) {
+    console.error(`[OUTBOX] ❌ Failed to update outbox item ${item.id}:`, error.message);
+  }
+}
+
+/**
+ * Attempt one delivery of an outbox row: delivered, rescheduled with exponential backoff,
+ * or dead-lettered once max_attempts is reached.
+ * @returns {Promise<boolean>} true when the webhook accepted the event
+ */
+async function deliverOutboxItem(item) {
+  const claimed = await claimOutboxItem(item);
+  if (!claimed) {
+    return false;
+  }
+
+  const attempts = claimed.attempts + 1;
+  const result = await postToInboundWebhook(claimed.agent_id, claimed.payload);
+  const label = `${claimed.event_type} ${claimed.message_id || claimed.id}`;
+
+  if (result.delivered) {
+    const deliveredAt = new Date().toISOString();
+    await completeOutboxItem(claimed, {
+      status: 'delivered',
+      attempts,
+      delivered_at: deliveredAt,
+      last_status_code: result.statusCode,
+      last_error: null,
+    });
+
+    if (claimed.message_id) {
+      await supabaseAdmin
+        .from('message_log')
+        .update({ forwarded_at: deliveredAt })
+        .eq('agent_id', claimed.agent_id)
+        .eq('message_id', claimed.message_id);
+    }
+
+    console.log(`[OUTBOX] ✅ Forwarded ${label} for agent ${claimed.agent_id} (attempt ${attempts})`);
+    return true;
+  }
+
+  if (attempts >= claimed.max_attempts) {
+    await completeOutboxItem(claimed, {
+      status: 'dead',
+      attempts,
+      dead_at: new Date().toISOString(),
+      last_status_code: result.statusCode,
+      last_error: result.error,
+    });
+    console.error(`[OUTBOX] 💀 ${label} dead-lettered after ${attempts} attempt(s) to ${result.webhookUrl}: ${result.error}`);
+    return false;
+  }
+
+  const backoffMs = Math.min(OUTBOX_MAX_BACKOFF_MS, OUTBOX_BASE_BACKOFF_MS * 2 ** (attempts - 1));
+  await completeOutboxItem(claimed, {
+    status: 'pending',
+    attempts,
+    next_attempt_at: new Date(Date.now() + backoffMs).toISOString(),
+    last_status_code: result.statusCode,
+    last_error: result.error,
+  });
+  console.warn(`[OUTBOX] 🔁 ${label} retry ${attempts}/${claimed.max_attempts} in ${backoffMs}ms: ${result.error}`);
+  return false;
+}
+
+async function releaseStaleAndPurge() {
+  const now = Date.now();
+
+  await supabaseAdmin
+    .from('webhook_outbox')
+    .update({ status: 'pending', locked_by: null, locked_at: null, updated_at: new Date(now).toISOString() })
+    .eq('status', 'delivering')
+    .lt('locked_at', new Date(now - OUTBOX_LOCK_TIMEOUT_MS).toISOString());
+
+  // Delivered rows are only kept for a week; dead letters stay until replayed
+  if (now - lastPurgeAt >= PURGE_INTERVAL_MS) {
+    lastPurgeAt = now;
+    await supabaseAdmin
+      .from('webhook_outbox')
+      .delete()
+      .eq('status', 'delivered')
+      .lt('delivered_at', new Date(now - DELIVERED_RETENTION_MS).toISOString());
+  }
+}
+
+async function processOutboxTick() {
+  if (isTicking) {
+    return;
+  }
+  isTicking = true;
+
+  try {
+    await releaseStaleAndPurge();
+    await enqueueUnqueuedMessages();
+
+    const { data: dueItems, error } = await supabaseAdmin
+      .from('webhook_outbox')
+      .select('id, agent_id, attempts')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('created_at', { ascending: true })
+      .limit(OUTBOX_BATCH_SIZE);
+
+    if (error) {
+      console.error('[OUTBOX] ❌ Failed to load due deliveries:', error.message);
+      return;
+    }
+
+    for (const item of dueItems || []) {
+      await deliverOutboxItem(item);
+    }
+  } catch (error) {
+    console.error('[OUTBOX] ❌ Outbox tick failed:', error.message);
+  } finally {
+    isTicking = false;
+  }
+}
+
+function startWebhookOutboxWorker() {
+  if (workerInterval) {
+    return;
+  }
+
+  workerInterval = setInterval(processOutboxTick, OUTBOX_POLL_INTERVAL_MS);
+  console.log(`[OUTBOX] 🚀 Webhook outbox worker started (${WORKER_ID}, every ${OUTBOX_POLL_INTERVAL_MS}ms)`);
+}
+
+function stopWebhookOutboxWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+async function listOutboxItems(agentId, { status, limit = 50, offset = 0 } = {}) {
+  let query = supabaseAdmin
+    .from('webhook_outbox')
+    .select('id, agent_id, event_type, message_id, status, attempts, max_attempts, next_attempt_at, last_status_code, last_error, delivered_at, dead_at, created_at, updated_at', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return { deliveries: data || [], total: count || 0 };
+}
+
+/**
+ * Put dead-lettered deliveries back in the queue with a fresh attempt budget.
+ * Without `deliveryId`, every dead letter of the agent is replayed.
+ * @returns {Promise<object[]>} the replayed rows
+ */
+async function replayDeadLetters(agentId, deliveryId = null) {
+  let query = supabaseAdmin
+    .from('webhook_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      dead_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('agent_id', agentId)
+    .eq('status', 'dead');
+
+  if (deliveryId) {
+    query = query.eq('id', deliveryId);
+  }
+
+  const { data, error } = await query.select('id, event_type, message_id, status');
+
+  if (error) {
+    throw error;
+  }
+
+  if (data?.length) {
+    console.log(`[OUTBOX] 🔄 Replaying ${data.length} dead-lettered delivery(ies) for agent ${agentId}`);
+  }
+  return data || [];
+}
+
+module.exports = {
+  postToInboundWebhook,
+  enqueueWebhookEvent,
+  deliverOutboxItem,
+  startWebhookOutboxWorker,
+  stopWebhookOutboxWorker,
+  listOutboxItems,
+  replayDeadLetters,
+};
@@ -0,0 +1,181 @@
+const crypto = require('crypto');
+const { supabaseAdmin } = require('../config/supabase');
+
+const SIGNATURE_HEADER = 'x-webhook-signature';
+const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+const SIGNATURE_PREFIX = 'sha256=';
+const SIGNATURE_TOLERANCE_MS = (Number(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) || 300) * 1000;
+// The previous secret keeps working for a while so n8n credentials can be updated after a rotation
+const PREVIOUS_SECRET_GRACE_MS = (Number(process.env.WEBHOOK_SECRET_GRACE_HOURS) || 24) * 60 * 60 * 1000;
+const REPLAY_CACHE_MAX_ENTRIES = 10000;
+
+// Per instance; across instances the timestamp window is what bounds a replay
+const seenSignatures = new Map(); // signature -> expiresAt ms
+
+function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>" as lowercase hex
+ */
+function computeSignature(secret, timestamp, body) {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Headers for an outbound request; `body` must be the exact string that is sent
+ */
+function buildSignatureHeaders(secret, body) {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  return {
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Signature': `${SIGNATURE_PREFIX}${computeSignature(secret, timestamp, body)}`,
+  };
+}
+
+function safeEqualHex(a, b) {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && left.length > 0 && crypto.timingSafeEqual(left, right);
+}
+
+// Forget signatures once they are outside the timestamp window (they would be rejected anyway)
+function rememberSignature(signature) {
+  const now = Date.now();
+  if (seenSignatures.size >= REPLAY_CACHE_MAX_ENTRIES) {
+    for (const [key, expiresAt] of seenSignatures) {
+      if (expiresAt <= now) {
+        seenSignatures.delete(key);
+      }
+    }
+  }
+  if (seenSignatures.size >= REPLAY_CACHE_MAX_ENTRIES) {
+    seenSignatures.delete(seenSignatures.keys().next().value);
+  }
+  seenSignatures.set(signature, now + SIGNATURE_TOLERANCE_MS * 2);
+}
+
+function wasSignatureSeen(signature) {
+  const expiresAt = seenSignatures.get(signature);
+  return Boolean(expiresAt && expiresAt > Date.now());
+}
+
+/**
+ * Verify a signed request against the agent's current (and recently rotated) secrets.
+ * Returns an error message string, or null when the signature is valid and not a replay.
+ */
+function verifySignature({ secrets, timestamp, signature, body }) {
+  if (!timestamp || !signature) {
+    return 'Missing X-Webhook-Timestamp or X-Webhook-Signature header';
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    return 'X-Webhook-Timestamp must be a Unix timestamp in seconds';
+  }
+
+  if (Math.abs(Date.now() - timestampSeconds * 1000) > SIGNATURE_TOLERANCE_MS) {
+    return 'Request timestamp is outside the allowed window';
+  }
+
+  const provided = signature.startsWith(SIGNATURE_PREFIX) ? signature.slice(SIGNATURE_PREFIX.length) : signature;
+  if (!/^[0-9a-f]{64}$/i.test(provided)) {
+    return 'X-Webhook-Signature must be "sha256=<hex digest>"';
+  }
+
+  const matches = secrets.some((secret) => safeEqualHex(computeSignature(secret, timestamp, body), provided.toLowerCase()));
+  if (!matches) {
+    return 'Signature does not match';
+  }
+
+  if (wasSignatureSeen(provided.toLowerCase())) {
+    return 'Request has already been processed (replay)';
+  }
+  rememberSignature(provided.toLowerCase());
+
+  return null;
+}
+
+/**
+ * Secrets accepted for an agent: the current one, plus the previous one during the rotation grace period
+ * @returns {Promise<{ found: boolean, secrets: string[] }>}
+ */
+async function getAgentWebhookSecrets(agentId) {
+  const { data, error } = await supabaseAdmin
+    .from('agents')
+    .select('id, webhook_secret, webhook_secret_previous, webhook_secret_rotated_at')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return { found: false, secrets: [] };
+  }
+
+  const secrets = [data.webhook_secret].filter(Boolean);
+  const rotatedAt = data.webhook_secret_rotated_at ? new Date(data.webhook_secret_rotated_at).getTime() : 0;
+  if (data.webhook_secret_previous && Date.now() - rotatedAt < PREVIOUS_SECRET_GRACE_MS) {
+    secrets.push(data.webhook_secret_previous);
+  }
+
+  return { found: true, secrets };
+}
+
+/**
+ * Replace the agent's secret; the old one stays valid for the grace period
+ * @returns {Promise<object|null>} { webhook_secret, webhook_secret_rotated_at } or null when the agent is not owned by userId
+ */
+async function rotateWebhookSecret(agentId, userId) {
+  const { data: agent, error: fetchError } = await supabaseAdmin
+    .from('agents')
+    .select('id, webhook_secret')
+    .eq('id', agentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!agent) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('agents')
+    .update({
+      webhook_secret: generateWebhookSecret(),
+      webhook_secret_previous: agent.webhook_secret || null,
+      webhook_secret_rotated_at: new Date().toISOString(),
+    })
+    .eq('id', agentId)
+    .eq('user_id', userId)
+    .select('webhook_secret, webhook_secret_rotated_at')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`[WEBHOOK-SIGNING] 🔑 Rotated webhook secret for agent ${agentId}`);
+  return data;
+}
+
+module.exports = {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  PREVIOUS_SECRET_GRACE_MS,
+  generateWebhookSecret,
+  computeSignature,
+  buildSignatureHeaders,
+  verifySignature,
+  getAgentWebhookSecrets,
+  rotateWebhookSecret,
+};
@@ -0,0 +1,89 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  computeSignature,
+  buildSignatureHeaders,
+  verifySignature,
+  generateWebhookSecret,
+} = require('./webhookSignatureService');
+
+const body = JSON.stringify({ agentId: 'agent-1', to: '923001234567', message: 'Hi' });
+
+function signedRequest(secret, { timestamp = Math.floor(Date.now() / 1000).toString(), payload = body } = {}) {
+  return { timestamp, signature: `sha256=${computeSignature(secret, timestamp, payload)}`, body: payload };
+}
+
+describe('computeSignature', () => {
+  it('is HMAC-SHA256 over "<timestamp>.<body>" as hex', () => {
+    assert.equal(
+      computeSignature('whsec_test', '1733040000', '{"ok":true}'),
+      '130b7342c965d25a67362d52823445afbd9223464d0c4538e45c6ef400b4fa4b'
+    );
+  });
+
+  it('produces headers that verify', () => {
+    const secret = generateWebhookSecret();
+    const headers = buildSignatureHeaders(secret, body);
+    assert.equal(verifySignature({
+      secrets: [secret],
+      timestamp: headers['X-Webhook-Timestamp'],
+      signature: headers['X-Webhook-Signature'],
+      body,
+    }), null);
+  });
+});
+
+describe('verifySignature', () => {
+  it('accepts the previous secret during a rotation', () => {
+    const previous = generateWebhookSecret();
+    const current = generateWebhookSecret();
+    assert.equal(verifySignature({ secrets: [current, previous], ...signedRequest(previous) }), null);
+  });
+
+  it('rejects a secret that is no longer accepted', () => {
+    const previous = generateWebhookSecret();
+    const current = generateWebhookSecret();
+    assert.equal(verifySignature({ secrets: [current], ...signedRequest(previous) }), 'Signature does not match');
+  });
+
+  it('rejects a body that differs from the signed one', () => {
+    const secret = generateWebhookSecret();
+    const request = signedRequest(secret);
+    assert.equal(
+      verifySignature({ secrets: [secret], ...request, body: request.body.replace('Hi', 'Bye') }),
+      'Signature does not match'
+    );
+  });
+
+  it('rejects stale timestamps', () => {
+    const secret = generateWebhookSecret();
+    const timestamp = (Math.floor(Date.now() / 1000) - 3600).toString();
+    assert.equal(
+      verifySignature({ secrets: [secret], ...signedRequest(secret, { timestamp }) }),
+      'Request timestamp is outside the allowed window'
+    );
+  });
+
+  it('rejects a replayed signature', () => {
+    const secret = generateWebhookSecret();
+    const request = signedRequest(secret);
+    assert.equal(verifySignature({ secrets: [secret], ...request }), null);
+    assert.equal(verifySignature({ secrets: [secret], ...request }), 'Request has already been processed (replay)');
+  });
+
+  it('reports missing or malformed headers', () => {
+    assert.equal(
+      verifySignature({ secrets: ['s'], timestamp: null, signature: null, body }),
+      'Missing X-Webhook-Timestamp or X-Webhook-Signature header'
+    );
+    assert.equal(
+      verifySignature({ secrets: ['s'], timestamp: 'yesterday', signature: 'sha256=00', body }),
+      'X-Webhook-Timestamp must be a Unix timestamp in seconds'
+    );
+    assert.equal(
+      verifySignature({ secrets: ['s'], timestamp: Math.floor(Date.now() / 1000).toString(), signature: 'sha256=xyz', body }),
+      'X-Webhook-Signature must be "sha256=<hex digest>"'
+    );
+  });
+});
@@ -25,6 +25,128 @@ const uploadedFileSchema = z.object({
   storagePath: z.string().optional()
 });
 
+// Opt-in group mode: group messages are forwarded only when the agent is addressed
+const groupChatSettingsSchema = z.object({
+  enabled: z.boolean(),
+  respondToMentions: z.boolean().optional().default(true),
+  respondToReplies: z.boolean().optional().default(true),
+  keywords: z.array(
+    z.string()
+      .trim()
+      .min(1, 'Keyword cannot be empty')
+      .max(50, 'Keyword must be less than 50 characters')
+  )
+    .max(20, 'Maximum 20 keywords allowed')
+    .optional()
+    .default([])
+});
+
+// Opt-in import of recent 1:1 history after pairing
+const historySyncSettingsSchema = z.object({
+  enabled: z.boolean(),
+  days: z.number()
+    .int('Days must be a whole number')
+    .min(1, 'Days must be at least 1')
+    .max(365, 'Days cannot exceed 365')
+    .optional()
+    .default(30)
+});
+
+// Voice-note transcription (provider is configured globally via TRANSCRIPTION_PROVIDER)
+const transcriptionSettingsSchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  maxDurationSeconds: z.number()
+    .int('Duration must be a whole number of seconds')
+    .min(1, 'Duration must be at least 1 second')
+    .max(3600, 'Duration cannot exceed 1 hour')
+    .optional()
+    .default(300),
+  language: z.string()
+    .trim()
+    .regex(/^[a-z]{2,3}$/i, 'Language must be an ISO-639-1 code (e.g. "en")')
+    .optional()
+    .nullable()
+});
+
+// Throttling for queued outbound messages
+const outboundQueueSettingsSchema = z.object({
+  messagesPerMinute: z.number()
+    .min(1, 'Must allow at least 1 message per minute')
+    .max(60, 'Cannot exceed 60 messages per minute')
+    .optional()
+    .default(20),
+  jitterSeconds: z.number()
+    .min(0, 'Jitter cannot be negative')
+    .max(60, 'Jitter cannot exceed 60 seconds')
+    .optional()
+    .default(3)
+});
+
+// Read receipt + typing indicator before each send, for a delay proportional to message length
+const humanizeSettingsSchema = z.object({
+  enabled: z.boolean(),
+  minDelaySeconds: z.number()
+    .min(0, 'Minimum delay cannot be negative')
+    .max(30, 'Minimum delay cannot exceed 30 seconds')
+    .optional()
+    .default(1),
+  maxDelaySeconds: z.number()
+    .min(0, 'Maximum delay cannot be negative')
+    .max(30, 'Maximum delay cannot exceed 30 seconds')
+    .optional()
+    .default(8)
+})
+  .refine((settings) => settings.maxDelaySeconds >= settings.minDelaySeconds, {
+    message: 'Maximum delay must be greater than or equal to the minimum delay',
+    path: ['maxDelaySeconds']
+  });
+
+// Per-agent inbound webhook; URLs follow the same rules as integration endpoints
+const webhookUrlSchema = z.string()
+  .url('Webhook URL must be a valid URL')
+  .regex(/^https:\/\//, 'Webhook URL must use HTTPS');
+
+const inboundWebhookSettingsSchema = z.object({
+  url: webhookUrlSchema.nullable().optional().default(null),
+  testUrl: webhookUrlSchema.nullable().optional().default(null),
+  useTestUrl: z.boolean().optional().default(false)
+})
+  .refine((settings) => !settings.useTestUrl || Boolean(settings.testUrl), {
+    message: 'A test URL is required to enable test mode',
+    path: ['testUrl']
+  });
+
+// Whole-message keywords that opt a customer out of (or back into) messages from the agent
+const consentKeywordsSchema = z.array(
+  z.string()
+    .trim()
+    .min(1, 'Keywords cannot be empty')
+    .max(30, 'Keywords must be less than 30 characters')
+)
+  .max(20, 'Maximum 20 keywords allowed');
+
+const consentSettingsSchema = z.object({
+  enabled: z.boolean(),
+  optOutKeywords: consentKeywordsSchema.min(1, 'At least one opt-out keyword is required'),
+  optInKeywords: consentKeywordsSchema,
+  optOutReply: z.string()
+    .trim()
+    .max(1000, 'Confirmation must be less than 1000 characters')
+    .optional()
+    .default(''),
+  optInReply: z.string()
+    .trim()
+    .max(1000, 'Confirmation must be less than 1000 characters')
+    .optional()
+    .default('')
+})
+  .refine((settings) => !settings.optOutKeywords.some((keyword) => (
+    settings.optInKeywords.some((optIn) => optIn.toUpperCase() === keyword.toUpperCase())
+  )), {
+    message: 'A keyword cannot be both an opt-out and an opt-in keyword',
+    path: ['optInKeywords']
+  });
+
 // Helper to ensure endpoint names remain unique (case insensitive)
 const uniqueEndpointNames = (endpoints) => {
   const seen = new Set();
@@ -93,7 +215,21 @@ const updateAgentSchema = z.object({
     .refine((list) => (list ? uniqueEndpointNames(list) : true), 'Endpoint name already exists'),
 
   uploadedFiles: z.array(uploadedFileSchema)
-    .optional()
+    .optional(),
+
+  groupChatSettings: groupChatSettingsSchema.optional(),
+
+  historySyncSettings: historySyncSettingsSchema.optional(),
+
+  transcriptionSettings: transcriptionSettingsSchema.optional(),
+
+  outboundQueueSettings: outboundQueueSettingsSchema.optional(),
+
+  humanizeSettings: humanizeSettingsSchema.optional(),
+
+  consentSettings: consentSettingsSchema.optional(),
+
+  inboundWebhookSettings: inboundWebhookSettingsSchema.optional()
 });
 
 // Schema for sending WhatsApp messages
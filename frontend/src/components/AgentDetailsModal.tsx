@@ -7,7 +7,8 @@
  * - View agent configuration and statistics
  * - Connect/disconnect WhatsApp via QR code
  * - Real-time connection status updates
- * - Tabbed interface with Overview, Configuration, WhatsApp, and Statistics
+ * - Manage reusable message templates
+ * - Tabbed interface with Overview, Configuration, WhatsApp, Templates, and Statistics
  * 
  * @param open - Modal visibility state
  * @param onOpenChange - Callback when modal opens/closes
@@ -26,6 +27,13 @@ import { useAgentDetails } from '@/hooks';
 import { formatDistanceToNow } from 'date-fns';
 import { Copy, Check, AlertCircle, User, Bot, MessageSquare, Globe, Clock, Calendar } from 'lucide-react';
 import WhatsAppConnectionPanel from './WhatsAppConnectionPanel';
+import HumanizeSettingsCard from './agents/HumanizeSettingsCard';
+import ConsentSettingsCard from './agents/ConsentSettingsCard';
+import TemplateManager from './agents/TemplateManager';
+import InboundWebhookCard from './agents/InboundWebhookCard';
+import WebhookDeliveriesCard from './agents/WebhookDeliveriesCard';
+import WebhookSecretCard from './agents/WebhookSecretCard';
+import ApiKeysCard from './agents/ApiKeysCard';
 import type { FileMetadata, IntegrationEndpoint } from '@/types/agent.types';
 
 interface AgentDetailsModalProps {
@@ -84,10 +92,11 @@ export default function AgentDetailsModal({ open, onOpenChange, agentId }: Agent
           {/* DATA STATE */}
           {data && (
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="configuration">Configuration</TabsTrigger>
                 <TabsTrigger value="whatsapp">WhatsApp</TabsTrigger>
+                <TabsTrigger value="templates">Templates</TabsTrigger>
                 <TabsTrigger value="statistics">Statistics</TabsTrigger>
               </TabsList>
               
@@ -342,6 +351,18 @@ export default function AgentDetailsModal({ open, onOpenChange, agentId }: Agent
                     )}
                   </CardContent>
                 </Card>
+
+                <HumanizeSettingsCard agentId={agentId} settings={data.agent.humanize_settings} />
+
+                <ConsentSettingsCard agentId={agentId} settings={data.agent.consent_settings} />
+
+                <InboundWebhookCard agentId={agentId} settings={data.agent.inbound_webhook_settings} />
+
+                <WebhookDeliveriesCard agentId={agentId} />
+
+                <WebhookSecretCard agentId={agentId} />
+
+                <ApiKeysCard agentId={agentId} />
               </TabsContent>
               
               {/* TAB 3: WHATSAPP CONNECTION */}
@@ -353,7 +374,12 @@ export default function AgentDetailsModal({ open, onOpenChange, agentId }: Agent
                 />
               </TabsContent>
               
-              {/* TAB 4: STATISTICS */}
+              {/* TAB 4: MESSAGE TEMPLATES */}
+              <TabsContent value="templates" className="mt-4">
+                <TemplateManager agentId={data.agent.id} />
+              </TabsContent>
+              
+              {/* TAB 5: STATISTICS */}
               <TabsContent value="statistics" className="space-y-4 mt-4">
                 <Card>
                   <CardHeader>
@@ -391,6 +417,18 @@ export default function AgentDetailsModal({ open, onOpenChange, agentId }: Agent
                         icon="⏳"
                       />
                     </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                      <StatCard 
+                        label="Received" 
+                        value={data.statistics.incoming_messages?.toString() || '0'}
+                        icon="📥"
+                      />
+                      <StatCard 
+                        label="Sent" 
+                        value={data.statistics.outgoing_messages?.toString() || '0'}
+                        icon="📤"
+                      />
+                    </div>
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -6,6 +6,7 @@
  * - Handles QR code generation and polling
  * - Manages connect/disconnect operations
  * - Real-time status updates via polling
+ * - History import progress via the agent event stream (SSE)
  * 
  * @param agentId - Agent UUID
  * @param whatsappSession - Current WhatsApp session data (if exists)
@@ -31,7 +32,7 @@ import { useConnectWhatsApp, useDisconnectWhatsApp } from '@/hooks';
 import type { WhatsAppSession } from '@/types/agent.types';
 import { supabase } from '@/integrations/supabase/client';
 import { formatDistanceToNow } from 'date-fns';
-import { Smartphone, QrCode, Loader2, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { Smartphone, QrCode, Loader2, AlertCircle, CheckCircle2, XCircle, History } from 'lucide-react';
 import { toast } from 'sonner';
 import QRCode from 'qrcode';
 
@@ -44,6 +45,11 @@ interface WhatsAppConnectionPanelProps {
 
 type ConnectionState = 'idle' | 'connecting' | 'connected' | 'disconnecting';
 
+interface HistorySyncState {
+  status: 'importing' | 'completed' | 'error';
+  imported: number;
+}
+
 import { API_URL } from '@/config';
 
 async function getQrDataUrl(value: string | null): Promise<string | null> {
@@ -81,6 +87,7 @@ export default function WhatsAppConnectionPanel({
   const [error, setError] = useState<string | null>(null);
   const [showDisconnectDialog, setShowDisconnectDialog] = useState(false);
   const [countdown, setCountdown] = useState(60);
+  const [historySync, setHistorySync] = useState<HistorySyncState | null>(null);
   
   const connectMutation = useConnectWhatsApp();
   const disconnectMutation = useDisconnectWhatsApp();
@@ -265,6 +272,39 @@ export default function WhatsAppConnectionPanel({
     };
   }, [connectionState, agentId]);
   
+  // History import progress is pushed over SSE right after pairing
+  // (only emitted when history backfill is enabled for the agent)
+  const shouldStreamEvents = isConnected || connectionState === 'connecting' || connectionState === 'connected';
+
+  useEffect(() => {
+    if (!shouldStreamEvents) {
+      return;
+    }
+
+    const eventSource = new EventSource(`${API_URL}/api/agents/${agentId}/whatsapp/stream`, {
+      withCredentials: true, // SECURITY: Send HttpOnly cookies
+    });
+
+    const handleHistorySync = (event: MessageEvent) => {
+      try {
+        const payload = JSON.parse(event.data);
+        setHistorySync({
+          status: payload.status,
+          imported: payload.imported ?? 0,
+        });
+      } catch (err) {
+        console.error('[WhatsApp] Invalid history sync event:', err);
+      }
+    };
+
+    eventSource.addEventListener('history_sync', handleHistorySync);
+
+    return () => {
+      eventSource.removeEventListener('history_sync', handleHistorySync);
+      eventSource.close();
+    };
+  }, [agentId, shouldStreamEvents]);
+  
   // Handle Connect Button Click
   const handleConnect = async () => {
     console.log('[WhatsApp] Initiating connection for agent:', agentId);
@@ -357,6 +397,22 @@ export default function WhatsAppConnectionPanel({
           </Alert>
         )}
         
+        {/* HISTORY IMPORT PROGRESS */}
+        {historySync && (
+          <div className="flex items-center gap-2 p-3 bg-muted border rounded-lg text-sm">
+            {historySync.status === 'importing' ? (
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            ) : (
+              <History className="h-4 w-4 text-muted-foreground" />
+            )}
+            <span className="text-muted-foreground">
+              {historySync.status === 'importing' && `Importing history… ${historySync.imported} messages`}
+              {historySync.status === 'completed' && `History imported: ${historySync.imported} messages`}
+              {historySync.status === 'error' && 'History import failed. New messages are not affected.'}
+            </span>
+          </div>
+        )}
+        
         {/* CONNECTED STATE */}
         {isConnected && connectionState !== 'disconnecting' && (
           <div className="space-y-4">
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Copy, KeySquare, Plus, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApiKeys, useCreateApiKey, useRevokeApiKey } from '@/hooks/useApiKeys';
+import type { ApiKey, ApiKeyScope } from '@/types/apiKey.types';
+
+interface ApiKeysCardProps {
+  agentId: string;
+}
+
+const scopeDescriptions: Record<ApiKeyScope, string> = {
+  'messages:send': 'Send and schedule WhatsApp messages',
+  'contacts:read': 'List contacts',
+  'contacts:write': 'Create, update, import and delete contacts',
+  'kb:query': 'Query the knowledge base',
+};
+
+const expiryOptions = [
+  { value: 'never', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+];
+
+const getKeyStatus = (apiKey: ApiKey) => {
+  if (apiKey.revoked_at) return 'revoked';
+  if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+export const ApiKeysCard = ({ agentId }: ApiKeysCardProps) => {
+  const { data, isLoading } = useApiKeys(agentId);
+  const createKey = useCreateApiKey(agentId);
+  const revokeKey = useRevokeApiKey(agentId);
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['messages:send']);
+  const [expiry, setExpiry] = useState('never');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const availableScopes = data?.scopes ?? (Object.keys(scopeDescriptions) as ApiKeyScope[]);
+  const apiKeys = data?.apiKeys ?? [];
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((item) => item !== scope)));
+  };
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const result = await createKey.mutateAsync({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+    });
+    setCreatedKey(result.key);
+    setCopied(false);
+    setName('');
+  };
+
+  const handleCopy = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeySquare className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Long-lived keys for integrations. Send them as <code>Authorization: Bearer &lt;key&gt;</code>;
+          each key only works for this agent and the scopes you grant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <Alert>
+            <AlertTitle>Copy your new key now</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>It will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly className="font-mono text-xs" value={createdKey} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+                Done
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form className="space-y-4 rounded-lg border p-4" onSubmit={handleCreate}>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`api-key-name-${agentId}`}>Name *</Label>
+              <Input
+                id={`api-key-name-${agentId}`}
+                placeholder="CRM integration"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes *</Label>
+            <div className="grid gap-2 md:grid-cols-2">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <span>
+                    <span className="font-mono">{scope}</span>
+                    <span className="block text-xs text-muted-foreground">{scopeDescriptions[scope]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!scopes.length || createKey.isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              {createKey.isPending ? 'Creating...' : 'Create key'}
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading keys...</p>
+        ) : !apiKeys.length ? (
+          <p className="text-sm text-muted-foreground">No API keys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map((apiKey) => {
+              const status = getKeyStatus(apiKey);
+              return (
+                <div
+                  key={apiKey.id}
+                  className="flex flex-col gap-2 rounded-lg border p-3 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{apiKey.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{apiKey.key_prefix}…</span>
+                      <Badge variant={status === 'active' ? 'default' : 'secondary'}>{status}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono text-xs">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {apiKey.last_used_at
+                        ? `Last used ${formatDistanceToNow(new Date(apiKey.last_used_at), { addSuffix: true })}`
+                        : 'Never used'}
+                      {apiKey.expires_at && ` · expires ${new Date(apiKey.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {status !== 'revoked' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={revokeKey.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working.`)) {
+                          revokeKey.mutate(apiKey.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4 text-destructive" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiKeysCard;
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { Megaphone, Pause, Play, Send, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useCampaignAction,
+  useCampaignReport,
+  useCampaigns,
+  useCreateCampaign,
+} from '@/hooks/useCampaigns';
+import type {
+  Campaign,
+  CampaignRecipientStatus,
+  CampaignStatus,
+} from '@/types/campaign.types';
+
+interface CampaignsPanelProps {
+  agentId: string;
+}
+
+const initialForm = {
+  name: '',
+  template: 'Hi {{name}}, ',
+  company: '',
+  messagesPerMinute: '',
+};
+
+const campaignStatusVariant: Record<CampaignStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  paused: 'secondary',
+  completed: 'outline',
+  cancelled: 'destructive',
+};
+
+const recipientStatusClass: Record<CampaignRecipientStatus, string> = {
+  pending: 'text-muted-foreground',
+  sending: 'text-blue-500',
+  sent: 'text-green-600',
+  failed: 'text-destructive',
+  skipped: 'text-yellow-600',
+};
+
+const getProgress = (campaign: Campaign) => {
+  const counts = campaign.counts;
+  if (!counts || !campaign.total_recipients) return 0;
+  const done = counts.sent + counts.failed + counts.skipped;
+  return Math.round((done / campaign.total_recipients) * 100);
+};
+
+const CampaignReportView = ({ agentId, campaignId }: { agentId: string; campaignId: string }) => {
+  const { data, isLoading } = useCampaignReport(agentId, campaignId);
+
+  if (isLoading || !data) {
+    return <div className="py-6 text-center text-muted-foreground">Loading report...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        {(Object.keys(data.counts) as CampaignRecipientStatus[]).map((status) => (
+          <span key={status} className={recipientStatusClass[status]}>
+            <span className="font-semibold">{data.counts[status]}</span> {status}
+          </span>
+        ))}
+        {data.campaign.excluded_opted_out > 0 && (
+          <span className="text-muted-foreground">
+            <span className="font-semibold">{data.campaign.excluded_opted_out}</span> excluded (opted out)
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Contact</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.recipients.map((recipient) => (
+              <TableRow key={recipient.id}>
+                <TableCell className="font-medium">{recipient.contact_name || '-'}</TableCell>
+                <TableCell>{recipient.phone_number}</TableCell>
+                <TableCell className={recipientStatusClass[recipient.status]}>{recipient.status}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {recipient.error_message ||
+                    (recipient.sent_at ? new Date(recipient.sent_at).toLocaleString() : '-')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export const CampaignsPanel = ({ agentId }: CampaignsPanelProps) => {
+  const { data, isLoading } = useCampaigns(agentId);
+  const createCampaign = useCreateCampaign();
+  const campaignAction = useCampaignAction();
+
+  const [formData, setFormData] = useState(initialForm);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+
+  const campaigns = data?.campaigns ?? [];
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const { campaign } = await createCampaign.mutateAsync({
+      agentId,
+      data: {
+        name: formData.name,
+        template: formData.template,
+        filter: formData.company ? { company: formData.company } : undefined,
+        messagesPerMinute: formData.messagesPerMinute ? Number(formData.messagesPerMinute) : undefined,
+      },
+    });
+    setFormData(initialForm);
+    setSelectedCampaignId(campaign.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="space-y-4 rounded-lg border p-4" onSubmit={handleSubmit}>
+        <div className="flex items-center space-x-2 text-sm font-medium">
+          <Megaphone className="h-5 w-5" />
+          <span>New campaign</span>
+        </div>
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name *</Label>
+            <Input
+              id="campaign-name"
+              value={formData.name}
+              onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="campaign-company">Only contacts at company</Label>
+            <Input
+              id="campaign-company"
+              placeholder="All contacts"
+              value={formData.company}
+              onChange={(e) => setFormData((prev) => ({ ...prev, company: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="campaign-rate">Messages per minute</Label>
+            <Input
+              id="campaign-rate"
+              type="number"
+              min={1}
+              max={60}
+              placeholder="Agent default"
+              value={formData.messagesPerMinute}
+              onChange={(e) => setFormData((prev) => ({ ...prev, messagesPerMinute: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="campaign-template">Message *</Label>
+          <Textarea
+            id="campaign-template"
+            rows={4}
+            value={formData.template}
+            onChange={(e) => setFormData((prev) => ({ ...prev, template: e.target.value }))}
+            required
+          />
+          <p className="text-xs text-muted-foreground">
+            Use {'{{name}}'} and {'{{company}}'} to personalise the message. Opted-out contacts are
+            excluded automatically.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={createCampaign.isPending}>
+            <Send className="mr-2 h-4 w-4" />
+            {createCampaign.isPending ? 'Creating...' : 'Start campaign'}
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-muted-foreground">Loading campaigns...</div>
+      ) : !campaigns.length ? (
+        <div className="py-8 text-center text-muted-foreground">No campaigns yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {campaigns.map((campaign) => (
+            <div key={campaign.id} className="space-y-3 rounded-lg border p-4 shadow-sm">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold">{campaign.name}</p>
+                  <Badge variant={campaignStatusVariant[campaign.status]}>{campaign.status}</Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {campaign.status === 'running' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={campaignAction.isPending}
+                      onClick={() => campaignAction.mutate({ agentId, campaignId: campaign.id, action: 'pause' })}
+                    >
+                      <Pause className="mr-1 h-4 w-4" />
+                      Pause
+                    </Button>
+                  )}
+                  {campaign.status === 'paused' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={campaignAction.isPending}
+                      onClick={() => campaignAction.mutate({ agentId, campaignId: campaign.id, action: 'resume' })}
+                    >
+                      <Play className="mr-1 h-4 w-4" />
+                      Resume
+                    </Button>
+                  )}
+                  {(campaign.status === 'running' || campaign.status === 'paused') && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={campaignAction.isPending}
+                      onClick={() => campaignAction.mutate({ agentId, campaignId: campaign.id, action: 'cancel' })}
+                    >
+                      <X className="mr-1 h-4 w-4 text-destructive" />
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      setSelectedCampaignId((current) => (current === campaign.id ? null : campaign.id))
+                    }
+                  >
+                    {selectedCampaignId === campaign.id ? 'Hide report' : 'View report'}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Progress value={getProgress(campaign)} />
+                <p className="text-xs text-muted-foreground">
+                  {campaign.counts?.sent ?? 0} of {campaign.total_recipients} sent
+                  {campaign.counts?.failed ? ` · ${campaign.counts.failed} failed` : ''}
+                  {campaign.counts?.skipped ? ` · ${campaign.counts.skipped} skipped` : ''}
+                  {` · ${campaign.messages_per_minute}/min`}
+                </p>
+              </div>
+
+              {selectedCampaignId === campaign.id && (
+                <CampaignReportView agentId={agentId} campaignId={campaign.id} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignsPanel;
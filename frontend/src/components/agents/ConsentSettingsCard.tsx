@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useUpdateAgentSettings } from '@/hooks/useAgents';
+import { useAddSuppression, useRemoveSuppression, useSuppressions } from '@/hooks/useSuppressions';
+import type { ConsentSettings } from '@/types/agent.types';
+
+interface ConsentSettingsCardProps {
+  agentId: string;
+  settings?: ConsentSettings | null;
+}
+
+const defaultSettings: ConsentSettings = {
+  enabled: false,
+  optOutKeywords: ['STOP', 'UNSUBSCRIBE', 'STOP ALL', 'OPT OUT'],
+  optInKeywords: ['START', 'SUBSCRIBE', 'UNSTOP'],
+  optOutReply: 'You have been unsubscribed and will not receive further messages. Reply START to subscribe again.',
+  optInReply: 'You are subscribed again. Reply STOP at any time to unsubscribe.',
+};
+
+const parseKeywords = (value: string) =>
+  value
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+export const ConsentSettingsCard = ({ agentId, settings }: ConsentSettingsCardProps) => {
+  const initial = { ...defaultSettings, ...settings };
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [optOutKeywords, setOptOutKeywords] = useState(initial.optOutKeywords.join(', '));
+  const [optInKeywords, setOptInKeywords] = useState(initial.optInKeywords.join(', '));
+  const [optOutReply, setOptOutReply] = useState(initial.optOutReply);
+  const [optInReply, setOptInReply] = useState(initial.optInReply);
+  const [phoneNumber, setPhoneNumber] = useState('');
+
+  const updateSettings = useUpdateAgentSettings(agentId);
+  const { data, isLoading } = useSuppressions(agentId);
+  const addSuppression = useAddSuppression(agentId);
+  const removeSuppression = useRemoveSuppression(agentId);
+
+  const suppressions = data?.suppressions ?? [];
+  const hasOptOutKeyword = parseKeywords(optOutKeywords).length > 0;
+
+  const handleSave = () => {
+    updateSettings.mutate({
+      consentSettings: {
+        enabled,
+        optOutKeywords: parseKeywords(optOutKeywords),
+        optInKeywords: parseKeywords(optInKeywords),
+        optOutReply,
+        optInReply,
+      },
+    });
+  };
+
+  const handleAdd = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await addSuppression.mutateAsync(phoneNumber.trim());
+    setPhoneNumber('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="h-5 w-5" />
+          Opt-Out &amp; Suppression List
+        </CardTitle>
+        <CardDescription>
+          Customers who reply with an opt-out keyword are added to the suppression list and no longer
+          receive messages from this agent: API, queued, scheduled and campaign sends are all refused.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`consent-enabled-${agentId}`}>Detect opt-out keywords</Label>
+            <Switch id={`consent-enabled-${agentId}`} checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`consent-opt-out-${agentId}`}>Opt-out keywords</Label>
+              <Input
+                id={`consent-opt-out-${agentId}`}
+                value={optOutKeywords}
+                disabled={!enabled}
+                onChange={(e) => setOptOutKeywords(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`consent-opt-in-${agentId}`}>Opt-in keywords</Label>
+              <Input
+                id={`consent-opt-in-${agentId}`}
+                value={optInKeywords}
+                disabled={!enabled}
+                onChange={(e) => setOptInKeywords(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Comma-separated. A keyword only matches when it is the whole message (case is ignored).
+          </p>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`consent-opt-out-reply-${agentId}`}>Opt-out confirmation</Label>
+              <Textarea
+                id={`consent-opt-out-reply-${agentId}`}
+                rows={3}
+                value={optOutReply}
+                disabled={!enabled}
+                onChange={(e) => setOptOutReply(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`consent-opt-in-reply-${agentId}`}>Opt-in confirmation</Label>
+              <Textarea
+                id={`consent-opt-in-reply-${agentId}`}
+                rows={3}
+                value={optInReply}
+                disabled={!enabled}
+                onChange={(e) => setOptInReply(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={!hasOptOutKeyword || updateSettings.isPending}>
+              {updateSettings.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <form className="flex gap-2" onSubmit={handleAdd}>
+            <Input
+              placeholder="Suppress a number, e.g. 923001234567"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={!phoneNumber.trim() || addSuppression.isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading suppression list...</p>
+          ) : !suppressions.length ? (
+            <p className="text-sm text-muted-foreground">No numbers have opted out.</p>
+          ) : (
+            <div className="space-y-2">
+              {suppressions.map((suppression) => (
+                <div key={suppression.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm">{suppression.phone_number}</span>
+                      <Badge variant="secondary">
+                        {suppression.reason === 'keyword' ? `replied "${suppression.keyword}"` : 'manual'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(suppression.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={removeSuppression.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Allow messages to ${suppression.phone_number} again?`)) {
+                        removeSuppression.mutate(suppression.phone_number);
+                      }
+                    }}
+                  >
+                    <Trash2 className="mr-1 h-4 w-4 text-destructive" />
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConsentSettingsCard;
@@ -12,6 +12,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import ContactsTable from './ContactsTable';
 import ContactUploadDialog from './ContactUploadDialog';
+import CampaignsPanel from './CampaignsPanel';
 import { useContactCount } from '@/hooks/useContacts';
 
 interface ContactsManagementDialogProps {
@@ -44,14 +45,15 @@ export const ContactsManagementDialog = ({
         <DialogHeader>
           <DialogTitle>Contact management</DialogTitle>
           <DialogDescription>
-            View, edit, or upload contacts for <span className="font-medium">{agentName}</span>.
+            View, edit, upload, or message contacts for <span className="font-medium">{agentName}</span>.
           </DialogDescription>
         </DialogHeader>
 
         <Tabs defaultValue="view" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="view">View contacts</TabsTrigger>
             <TabsTrigger value="upload">Upload new</TabsTrigger>
+            <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
           </TabsList>
 
           <TabsContent value="view" className="mt-6">
@@ -73,6 +75,10 @@ export const ContactsManagementDialog = ({
               }
             />
           </TabsContent>
+
+          <TabsContent value="campaigns" className="mt-6">
+            <CampaignsPanel agentId={agentId} />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
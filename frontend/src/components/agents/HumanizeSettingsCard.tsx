@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useUpdateAgentSettings } from '@/hooks/useAgents';
+import type { HumanizeSettings } from '@/types/agent.types';
+
+interface HumanizeSettingsCardProps {
+  agentId: string;
+  settings?: HumanizeSettings | null;
+}
+
+const defaultSettings: HumanizeSettings = {
+  enabled: false,
+  minDelaySeconds: 1,
+  maxDelaySeconds: 8,
+};
+
+export const HumanizeSettingsCard = ({ agentId, settings }: HumanizeSettingsCardProps) => {
+  const [formData, setFormData] = useState<HumanizeSettings>({ ...defaultSettings, ...settings });
+  const updateSettings = useUpdateAgentSettings(agentId);
+
+  const isRangeValid = formData.maxDelaySeconds >= formData.minDelaySeconds;
+
+  const handleSave = () => {
+    updateSettings.mutate({ humanizeSettings: formData });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          Reply Pacing
+        </CardTitle>
+        <CardDescription>
+          Mark the chat as read and show &quot;typing…&quot; before each message, for a time based on
+          the message length. Applies to API, queued, scheduled and campaign messages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`humanize-enabled-${agentId}`}>Humanize replies</Label>
+          <Switch
+            id={`humanize-enabled-${agentId}`}
+            checked={formData.enabled}
+            onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, enabled: checked }))}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`humanize-min-${agentId}`}>Minimum delay (seconds)</Label>
+            <Input
+              id={`humanize-min-${agentId}`}
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={formData.minDelaySeconds}
+              disabled={!formData.enabled}
+              onChange={(e) => setFormData((prev) => ({ ...prev, minDelaySeconds: Number(e.target.value) }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`humanize-max-${agentId}`}>Maximum delay (seconds)</Label>
+            <Input
+              id={`humanize-max-${agentId}`}
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={formData.maxDelaySeconds}
+              disabled={!formData.enabled}
+              onChange={(e) => setFormData((prev) => ({ ...prev, maxDelaySeconds: Number(e.target.value) }))}
+            />
+          </div>
+        </div>
+
+        {!isRangeValid && (
+          <p className="text-sm text-destructive">Maximum delay must be at least the minimum delay.</p>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!isRangeValid || updateSettings.isPending}>
+            {updateSettings.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HumanizeSettingsCard;
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useUpdateAgentSettings } from '@/hooks/useAgents';
+import type { InboundWebhookSettings } from '@/types/agent.types';
+
+interface InboundWebhookCardProps {
+  agentId: string;
+  settings?: InboundWebhookSettings | null;
+}
+
+const defaultSettings: InboundWebhookSettings = {
+  url: null,
+  testUrl: null,
+  useTestUrl: false,
+};
+
+const isHttpsUrl = (value: string) => {
+  if (!value) return true;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const InboundWebhookCard = ({ agentId, settings }: InboundWebhookCardProps) => {
+  const initial = { ...defaultSettings, ...settings };
+  const [url, setUrl] = useState(initial.url ?? '');
+  const [testUrl, setTestUrl] = useState(initial.testUrl ?? '');
+  const [useTestUrl, setUseTestUrl] = useState(initial.useTestUrl);
+  const updateSettings = useUpdateAgentSettings(agentId);
+
+  const urlValid = isHttpsUrl(url.trim());
+  const testUrlValid = isHttpsUrl(testUrl.trim());
+  const canSave = urlValid && testUrlValid && (!useTestUrl || Boolean(testUrl.trim()));
+
+  const handleSave = () => {
+    updateSettings.mutate({
+      inboundWebhookSettings: {
+        url: url.trim() || null,
+        testUrl: testUrl.trim() || null,
+        useTestUrl,
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Inbound Webhook
+        </CardTitle>
+        <CardDescription>
+          Incoming WhatsApp messages for this agent are forwarded to this URL (e.g. your n8n workflow).
+          Leave it empty to use the server&apos;s default webhook.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`inbound-webhook-url-${agentId}`}>Webhook URL</Label>
+          <Input
+            id={`inbound-webhook-url-${agentId}`}
+            type="url"
+            placeholder="https://n8n.example.com/webhook/..."
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          {!urlValid && <p className="text-sm text-destructive">Webhook URL must be a valid HTTPS URL.</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`inbound-webhook-test-url-${agentId}`}>Test URL</Label>
+          <Input
+            id={`inbound-webhook-test-url-${agentId}`}
+            type="url"
+            placeholder="https://n8n.example.com/webhook-test/..."
+            value={testUrl}
+            onChange={(e) => {
+              setTestUrl(e.target.value);
+              if (!e.target.value.trim()) setUseTestUrl(false);
+            }}
+          />
+          {!testUrlValid && <p className="text-sm text-destructive">Test URL must be a valid HTTPS URL.</p>}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label htmlFor={`inbound-webhook-use-test-${agentId}`}>Send to test URL</Label>
+            <p className="text-xs text-muted-foreground">
+              While on, messages go to the test URL instead of the webhook URL.
+            </p>
+          </div>
+          <Switch
+            id={`inbound-webhook-use-test-${agentId}`}
+            checked={useTestUrl}
+            disabled={!testUrl.trim()}
+            onCheckedChange={setUseTestUrl}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!canSave || updateSettings.isPending}>
+            {updateSettings.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InboundWebhookCard;
@@ -0,0 +1,410 @@
+import { useState } from 'react';
+import { Eye, FileText, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useDeleteMessageTemplate,
+  useMessageTemplates,
+  usePreviewMessageTemplate,
+  useSaveMessageTemplate,
+} from '@/hooks/useMessageTemplates';
+import type {
+  MessageTemplate,
+  TemplateMediaType,
+  TemplateVariable,
+} from '@/types/template.types';
+
+interface TemplateManagerProps {
+  agentId: string;
+}
+
+interface TemplateForm {
+  name: string;
+  language: string;
+  description: string;
+  body: string;
+  variables: TemplateVariable[];
+  mediaType: TemplateMediaType | 'none';
+  mediaUrl: string;
+  mediaFileName: string;
+}
+
+const initialForm: TemplateForm = {
+  name: '',
+  language: 'default',
+  description: '',
+  body: '',
+  variables: [],
+  mediaType: 'none',
+  mediaUrl: '',
+  mediaFileName: '',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const getBodyVariables = (body: string) =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+
+const toForm = (template: MessageTemplate): TemplateForm => ({
+  name: template.name,
+  language: template.language,
+  description: template.description ?? '',
+  body: template.body,
+  variables: template.variables,
+  mediaType: template.media?.type ?? 'none',
+  mediaUrl: template.media?.url ?? '',
+  mediaFileName: template.media?.fileName ?? '',
+});
+
+const TemplatePreviewPanel = ({ agentId, template }: { agentId: string; template: MessageTemplate }) => {
+  const preview = usePreviewMessageTemplate(agentId);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const defaults = Object.fromEntries(
+    template.variables.map((variable) => [variable.name, variable.defaultValue])
+  );
+  const names = [
+    ...new Set([...template.variables.map((variable) => variable.name), ...getBodyVariables(template.body)]),
+  ];
+
+  const handlePreview = () => {
+    const variables = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+    preview.mutate({ templateId: template.id, variables });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted/50 p-3">
+      {names.length > 0 && (
+        <div className="grid gap-2 md:grid-cols-2">
+          {names.map((name) => (
+            <Input
+              key={name}
+              placeholder={defaults[name] ? `${name} (default: ${defaults[name]})` : `${name} (required)`}
+              value={values[name] ?? ''}
+              onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+            />
+          ))}
+        </div>
+      )}
+      <Button size="sm" variant="secondary" onClick={handlePreview} disabled={preview.isPending}>
+        <Eye className="mr-1 h-4 w-4" />
+        {preview.isPending ? 'Rendering...' : 'Render preview'}
+      </Button>
+      {preview.error && <p className="text-sm text-destructive">{preview.error.message}</p>}
+      {preview.data && (
+        <div className="space-y-1 rounded-md border bg-background p-3 text-sm">
+          {preview.data.media && (
+            <p className="text-xs text-muted-foreground">
+              📎 {preview.data.media.type}: {preview.data.media.fileName || preview.data.media.url}
+            </p>
+          )}
+          <p className="whitespace-pre-wrap">{preview.data.text || <em>(no text)</em>}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const TemplateManager = ({ agentId }: TemplateManagerProps) => {
+  const { data, isLoading } = useMessageTemplates(agentId);
+  const saveTemplate = useSaveMessageTemplate(agentId);
+  const deleteTemplate = useDeleteMessageTemplate(agentId);
+
+  const [formData, setFormData] = useState<TemplateForm>(initialForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const templates = data?.templates ?? [];
+  const undeclaredVariables = getBodyVariables(formData.body).filter(
+    (name) => !formData.variables.some((variable) => variable.name === name)
+  );
+
+  const resetForm = () => {
+    setFormData(initialForm);
+    setEditingId(null);
+  };
+
+  const updateVariable = (index: number, patch: Partial<TemplateVariable>) => {
+    setFormData((prev) => ({
+      ...prev,
+      variables: prev.variables.map((variable, i) => (i === index ? { ...variable, ...patch } : variable)),
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await saveTemplate.mutateAsync({
+      templateId: editingId ?? undefined,
+      data: {
+        name: formData.name.trim(),
+        language: formData.language.trim() || 'default',
+        description: formData.description.trim() || null,
+        body: formData.body,
+        variables: formData.variables
+          .filter((variable) => variable.name.trim())
+          .map((variable) => ({
+            name: variable.name.trim(),
+            ...(variable.defaultValue ? { defaultValue: variable.defaultValue } : {}),
+          })),
+        media:
+          formData.mediaType === 'none'
+            ? null
+            : {
+                type: formData.mediaType,
+                url: formData.mediaUrl.trim(),
+                ...(formData.mediaFileName.trim() ? { fileName: formData.mediaFileName.trim() } : {}),
+              },
+      },
+    });
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="space-y-4 rounded-lg border p-4" onSubmit={handleSubmit}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-sm font-medium">
+            <FileText className="h-5 w-5" />
+            <span>{editingId ? `Edit ${formData.name}` : 'New template'}</span>
+          </div>
+          {editingId && (
+            <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+              <X className="mr-1 h-4 w-4" />
+              Cancel edit
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input
+              id="template-name"
+              placeholder="payment_instructions"
+              value={formData.name}
+              onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-language">Language</Label>
+            <Input
+              id="template-language"
+              placeholder="default, en, ur, en-US"
+              value={formData.language}
+              onChange={(e) => setFormData((prev) => ({ ...prev, language: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Input
+              id="template-description"
+              value={formData.description}
+              onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-body">Message</Label>
+          <Textarea
+            id="template-body"
+            rows={4}
+            placeholder="Hi {{name}}, please transfer {{amount}} to ..."
+            value={formData.body}
+            onChange={(e) => setFormData((prev) => ({ ...prev, body: e.target.value }))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Use {'{{variable}}'} placeholders. Variables without a default must be provided by the caller.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Variables</Label>
+            <div className="flex gap-2">
+              {undeclaredVariables.length > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      variables: [...prev.variables, ...undeclaredVariables.map((name) => ({ name }))],
+                    }))
+                  }
+                >
+                  Add {undeclaredVariables.join(', ')}
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setFormData((prev) => ({ ...prev, variables: [...prev.variables, { name: '' }] }))
+                }
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Variable
+              </Button>
+            </div>
+          </div>
+          {formData.variables.map((variable, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                placeholder="name"
+                value={variable.name}
+                onChange={(e) => updateVariable(index, { name: e.target.value })}
+              />
+              <Input
+                placeholder="Default value (optional)"
+                value={variable.defaultValue ?? ''}
+                onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    variables: prev.variables.filter((_, i) => i !== index),
+                  }))
+                }
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Attachment</Label>
+            <Select
+              value={formData.mediaType}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, mediaType: value as TemplateForm['mediaType'] }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="image">Image</SelectItem>
+                <SelectItem value="video">Video</SelectItem>
+                <SelectItem value="audio">Audio</SelectItem>
+                <SelectItem value="document">Document</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {formData.mediaType !== 'none' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="template-media-url">File URL (HTTPS) *</Label>
+                <Input
+                  id="template-media-url"
+                  type="url"
+                  value={formData.mediaUrl}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, mediaUrl: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-media-filename">File name</Label>
+                <Input
+                  id="template-media-filename"
+                  placeholder="invoice.pdf"
+                  value={formData.mediaFileName}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, mediaFileName: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveTemplate.isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            {saveTemplate.isPending ? 'Saving...' : editingId ? 'Save changes' : 'Create template'}
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-muted-foreground">Loading templates...</div>
+      ) : !templates.length ? (
+        <div className="py-8 text-center text-muted-foreground">No templates yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template) => (
+            <div key={template.id} className="space-y-3 rounded-lg border p-4 shadow-sm">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-mono font-semibold">{template.name}</p>
+                  <Badge variant="outline">{template.language}</Badge>
+                  {template.media && <Badge variant="secondary">{template.media.type}</Badge>}
+                  {template.description && (
+                    <span className="text-sm text-muted-foreground">{template.description}</span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setPreviewId((current) => (current === template.id ? null : template.id))}
+                  >
+                    <Eye className="mr-1 h-4 w-4" />
+                    {previewId === template.id ? 'Hide preview' : 'Preview'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditingId(template.id);
+                      setFormData(toForm(template));
+                    }}
+                  >
+                    <Pencil className="mr-1 h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteTemplate.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Delete template "${template.name}" (${template.language})?`)) {
+                        deleteTemplate.mutate(template.id);
+                        if (editingId === template.id) resetForm();
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+              {template.body && (
+                <p className="whitespace-pre-wrap text-sm text-muted-foreground line-clamp-3">{template.body}</p>
+              )}
+              {previewId === template.id && <TemplatePreviewPanel agentId={agentId} template={template} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,77 @@
+import { formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useReplayWebhookDeliveries, useWebhookDeliveries } from '@/hooks/useWebhookDeliveries';
+
+interface WebhookDeliveriesCardProps {
+  agentId: string;
+}
+
+export const WebhookDeliveriesCard = ({ agentId }: WebhookDeliveriesCardProps) => {
+  const { data, isLoading } = useWebhookDeliveries(agentId, 'dead');
+  const replay = useReplayWebhookDeliveries(agentId);
+
+  const deliveries = data?.deliveries ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Failed Webhook Deliveries
+        </CardTitle>
+        <CardDescription>
+          Messages forwarded to your inbound webhook are retried with increasing delays. Deliveries that
+          still fail after the last attempt are listed here and can be sent again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading deliveries...</p>
+        ) : !deliveries.length ? (
+          <p className="text-sm text-muted-foreground">No failed deliveries.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{data?.total ?? deliveries.length} failed</span>
+              <Button variant="outline" size="sm" disabled={replay.isPending} onClick={() => replay.mutate(undefined)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Replay all
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{delivery.event_type}</Badge>
+                      <span className="truncate font-mono text-xs">{delivery.message_id || delivery.id}</span>
+                    </div>
+                    <p className="truncate text-xs text-destructive">{delivery.last_error || 'Delivery failed'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {delivery.attempts} attempts, last{' '}
+                      {formatDistanceToNow(new Date(delivery.dead_at || delivery.updated_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={replay.isPending}
+                    onClick={() => replay.mutate(delivery.id)}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Replay
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhookDeliveriesCard;
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Copy, Eye, EyeOff, KeyRound, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRotateWebhookSecret, useWebhookSecret } from '@/hooks/useWebhookSecret';
+
+interface WebhookSecretCardProps {
+  agentId: string;
+}
+
+export const WebhookSecretCard = ({ agentId }: WebhookSecretCardProps) => {
+  const { data, isLoading, error } = useWebhookSecret(agentId);
+  const rotateSecret = useRotateWebhookSecret(agentId);
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const secret = data?.secret ?? '';
+  const previousStillValid =
+    data?.previousSecretValidUntil && new Date(data.previousSecretValidUntil).getTime() > Date.now();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRotate = () => {
+    if (
+      window.confirm(
+        'Generate a new webhook secret? Requests signed with the current secret are accepted for a limited time only.'
+      )
+    ) {
+      rotateSecret.mutate(undefined, { onSuccess: () => setRevealed(true) });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Webhook Signing
+        </CardTitle>
+        <CardDescription>
+          Requests to the send-message and document webhooks must carry an HMAC-SHA256 signature made
+          with this secret. Messages forwarded to n8n are signed with it too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading secret...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor={`webhook-secret-${agentId}`}>Secret</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`webhook-secret-${agentId}`}
+                readOnly
+                className="font-mono text-xs"
+                type={revealed ? 'text' : 'password'}
+                value={secret || 'Not generated yet'}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={!secret}
+                onClick={() => setRevealed((current) => !current)}
+              >
+                {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" size="icon" disabled={!secret} onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            {data?.rotatedAt && (
+              <p className="text-xs text-muted-foreground">
+                Rotated {formatDistanceToNow(new Date(data.rotatedAt), { addSuffix: true })}
+                {previousStillValid &&
+                  ` · previous secret accepted until ${new Date(data.previousSecretValidUntil as string).toLocaleString()}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={handleRotate} disabled={isLoading || rotateSecret.isPending}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {rotateSecret.isPending ? 'Rotating...' : secret ? 'Rotate secret' : 'Generate secret'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhookSecretCard;
@@ -7,7 +7,11 @@
 
 // Agent hooks
 export { useAgentDetails, getWhatsAppStatus, needsWhatsAppSetup } from './useAgentDetails';
-export { useAgents, useDeleteAgent } from './useAgents';
+export { useAgents, useDeleteAgent, useUpdateAgentSettings } from './useAgents';
+export { useWebhookSecret, useRotateWebhookSecret } from './useWebhookSecret';
+export { useApiKeys, useCreateApiKey, useRevokeApiKey } from './useApiKeys';
+export { useSuppressions, useAddSuppression, useRemoveSuppression } from './useSuppressions';
+export { useWebhookDeliveries, useReplayWebhookDeliveries } from './useWebhookDeliveries';
 export { useConnectWhatsApp, useDisconnectWhatsApp, isWhatsAppConnected, isWaitingForQRScan, getWhatsAppStatusText } from './useWhatsAppConnection';
 export {
   useContacts,
@@ -18,6 +22,18 @@ export {
   useContactCount,
   useCreateContact,
 } from './useContacts';
+export {
+  useCampaigns,
+  useCampaignReport,
+  useCreateCampaign,
+  useCampaignAction,
+} from './useCampaigns';
+export {
+  useMessageTemplates,
+  useSaveMessageTemplate,
+  useDeleteMessageTemplate,
+  usePreviewMessageTemplate,
+} from './useMessageTemplates';
 
 // UI hooks (existing)
 export { useToast } from './use-toast';
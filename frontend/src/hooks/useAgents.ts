@@ -6,7 +6,7 @@
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import type { AgentListItem, ApiError } from '@/types/agent.types';
+import type { Agent, AgentListItem, AgentSettingsUpdate, ApiError } from '@/types/agent.types';
 
 import { API_URL } from '@/config';
 
@@ -57,6 +57,31 @@ async function deleteAgent(agentId: string): Promise<{ success: boolean; message
   return response.json();
 }
 
+/**
+ * Update agent settings
+ */
+async function updateAgentSettings(agentId: string, settings: AgentSettingsUpdate): Promise<Agent> {
+  const response = await fetch(`${API_URL}/api/agents/${agentId}`, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const errorData: ApiError = await response.json().catch(() => ({
+      error: 'Unknown error',
+      message: `HTTP ${response.status}: ${response.statusText}`,
+    }));
+
+    throw new Error(errorData.message || errorData.error || 'Failed to update agent');
+  }
+
+  return response.json();
+}
+
 /**
  * useAgents Hook
  * 
@@ -167,3 +192,34 @@ export function useDeleteAgent(
   });
 }
 
+/**
+ * useUpdateAgentSettings Hook
+ *
+ * Mutation hook for saving per-agent settings (e.g. humanize mode)
+ * Refreshes the agent details cache on success
+ */
+export function useUpdateAgentSettings(agentId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<Agent, Error, AgentSettingsUpdate>({
+    mutationFn: (settings) => updateAgentSettings(agentId, settings),
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agent-details', agentId] });
+
+      toast({
+        title: 'Settings Saved',
+        description: 'Agent settings have been updated',
+      });
+    },
+
+    onError: (error) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update agent settings',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  ApiKey,
+  ApiKeyScope,
+  CreateApiKeyInput,
+  CreatedApiKey,
+} from '@/types/apiKey.types';
+
+export const useApiKeys = (agentId: string | null) => {
+  return useQuery<{ apiKeys: ApiKey[]; scopes: ApiKeyScope[] }, Error>({
+    queryKey: ['api-keys', agentId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/api-keys`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch API keys');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+  });
+};
+
+export const useCreateApiKey = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<CreatedApiKey, Error, CreateApiKeyInput>({
+    mutationFn: async (data) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/api-keys`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.details && typeof errorPayload.details === 'string'
+          ? errorPayload.details
+          : errorPayload.error || 'Failed to create API key');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Key not created',
+        description: error.message,
+      });
+    },
+  });
+};
+
+export const useRevokeApiKey = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ apiKey: ApiKey }, Error, string>({
+    mutationFn: async (keyId) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/api-keys/${keyId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to revoke API key');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ apiKey }) => {
+      toast({
+        title: 'API key revoked',
+        description: `${apiKey.name} can no longer be used.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['api-keys', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Revoke failed',
+        description: error.message,
+      });
+    },
+  });
+};
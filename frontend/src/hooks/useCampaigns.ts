@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  Campaign,
+  CampaignAction,
+  CampaignReport,
+  CreateCampaignInput,
+} from '@/types/campaign.types';
+
+const ACTIVE_REFRESH_MS = 5000;
+
+export const useCampaigns = (agentId: string | null) => {
+  return useQuery<{ campaigns: Campaign[] }, Error>({
+    queryKey: ['campaigns', agentId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/campaigns`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch campaigns');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+    // Keep progress live while a campaign is sending
+    refetchInterval: (query) =>
+      query.state.data?.campaigns.some((campaign) => campaign.status === 'running')
+        ? ACTIVE_REFRESH_MS
+        : false,
+  });
+};
+
+export const useCampaignReport = (agentId: string, campaignId: string | null) => {
+  return useQuery<CampaignReport, Error>({
+    queryKey: ['campaignReport', agentId, campaignId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/campaigns/${campaignId}?limit=500`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch campaign report');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId && campaignId),
+    refetchInterval: (query) =>
+      query.state.data?.campaign.status === 'running' ? ACTIVE_REFRESH_MS : false,
+  });
+};
+
+export const useCreateCampaign = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ campaign: Campaign }, Error, { agentId: string; data: CreateCampaignInput }>({
+    mutationFn: async ({ agentId, data }) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/campaigns`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to create campaign');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ campaign }, variables) => {
+      toast({
+        title: 'Campaign created',
+        description: `${campaign.total_recipients} recipients queued${
+          campaign.excluded_opted_out ? `, ${campaign.excluded_opted_out} opted-out contacts excluded` : ''
+        }.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['campaigns', variables.agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Campaign failed',
+        description: error.message,
+      });
+    },
+  });
+};
+
+export const useCampaignAction = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<
+    { campaign: Campaign },
+    Error,
+    { agentId: string; campaignId: string; action: CampaignAction }
+  >({
+    mutationFn: async ({ agentId, campaignId, action }) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/campaigns/${campaignId}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to update campaign');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns', variables.agentId] });
+      queryClient.invalidateQueries({
+        queryKey: ['campaignReport', variables.agentId, variables.campaignId],
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Update failed',
+        description: error.message,
+      });
+    },
+  });
+};
@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  MessageTemplate,
+  MessageTemplateInput,
+  TemplatePreview,
+} from '@/types/template.types';
+
+const readError = async (response: Response, fallback: string) => {
+  const errorPayload = await response.json().catch(() => ({}));
+  const details = typeof errorPayload.details === 'string'
+    ? errorPayload.details
+    : errorPayload.details?.[0]?.message;
+  return new Error(details ? `${errorPayload.error || fallback}: ${details}` : errorPayload.error || fallback);
+};
+
+export const useMessageTemplates = (agentId: string | null) => {
+  return useQuery<{ templates: MessageTemplate[] }, Error>({
+    queryKey: ['message-templates', agentId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/templates`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch templates');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+  });
+};
+
+export const useSaveMessageTemplate = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<
+    { template: MessageTemplate },
+    Error,
+    { templateId?: string; data: MessageTemplateInput }
+  >({
+    mutationFn: async ({ templateId, data }) => {
+      const url = templateId
+        ? `${API_URL}/api/agents/${agentId}/templates/${templateId}`
+        : `${API_URL}/api/agents/${agentId}/templates`;
+      const response = await fetch(url, {
+        method: templateId ? 'PUT' : 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to save template');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ template }, variables) => {
+      toast({
+        title: variables.templateId ? 'Template updated' : 'Template created',
+        description: `${template.name} (${template.language}) is ready to use.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['message-templates', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Save failed',
+        description: error.message,
+      });
+    },
+  });
+};
+
+export const useDeleteMessageTemplate = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ success: boolean; id: string }, Error, string>({
+    mutationFn: async (templateId) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/templates/${templateId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to delete template');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['message-templates', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Delete failed',
+        description: error.message,
+      });
+    },
+  });
+};
+
+export const usePreviewMessageTemplate = (agentId: string) => {
+  return useMutation<
+    TemplatePreview,
+    Error,
+    { templateId: string; variables: Record<string, string> }
+  >({
+    mutationFn: async ({ templateId, variables }) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/templates/${templateId}/preview`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variables }),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to preview template');
+      }
+
+      return response.json();
+    },
+  });
+};
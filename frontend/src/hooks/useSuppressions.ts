@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type { ContactSuppression, SuppressionListResponse } from '@/types/suppression.types';
+
+export const useSuppressions = (agentId: string | null) => {
+  return useQuery<SuppressionListResponse, Error>({
+    queryKey: ['suppressions', agentId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/suppressions?limit=200`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch suppression list');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+  });
+};
+
+export const useAddSuppression = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ suppression: ContactSuppression }, Error, string>({
+    mutationFn: async (phoneNumber) => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/suppressions`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber }),
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(Array.isArray(errorPayload.details) && errorPayload.details[0]?.message
+          ? errorPayload.details[0].message
+          : errorPayload.error || 'Failed to suppress number');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ suppression }) => {
+      toast({
+        title: 'Number suppressed',
+        description: `${suppression.phone_number} will not receive messages from this agent.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['suppressions', agentId] });
+      queryClient.invalidateQueries({ queryKey: ['contacts', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Suppression failed',
+        description: error.message,
+      });
+    },
+  });
+};
+
+export const useRemoveSuppression = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: async (phoneNumber) => {
+      const response = await fetch(
+        `${API_URL}/api/agents/${agentId}/suppressions/${encodeURIComponent(phoneNumber)}`,
+        {
+          method: 'DELETE',
+          credentials: 'include',
+        }
+      );
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to remove number');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppressions', agentId] });
+      queryClient.invalidateQueries({ queryKey: ['contacts', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Remove failed',
+        description: error.message,
+      });
+    },
+  });
+};
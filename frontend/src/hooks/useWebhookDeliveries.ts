@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type { WebhookDeliveryListResponse, WebhookDeliveryStatus } from '@/types/webhookDelivery.types';
+
+export const useWebhookDeliveries = (agentId: string | null, status?: WebhookDeliveryStatus) => {
+  return useQuery<WebhookDeliveryListResponse, Error>({
+    queryKey: ['webhook-deliveries', agentId, status],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '50' });
+      if (status) {
+        params.set('status', status);
+      }
+
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/webhook-deliveries?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch webhook deliveries');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+  });
+};
+
+/**
+ * Replay one dead-lettered delivery, or all of them when called without an id
+ */
+export const useReplayWebhookDeliveries = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<{ replayed?: number }, Error, string | undefined>({
+    mutationFn: async (deliveryId) => {
+      const path = deliveryId
+        ? `webhook-deliveries/${deliveryId}/replay`
+        : 'webhook-deliveries/replay';
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/${path}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to replay webhook delivery');
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Delivery requeued',
+        description: result.replayed !== undefined
+          ? `${result.replayed} failed deliveries will be retried shortly.`
+          : 'The delivery will be retried shortly.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', agentId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Replay failed',
+        description: error.message,
+      });
+    },
+  });
+};
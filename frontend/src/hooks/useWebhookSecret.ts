@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API_URL } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type { WebhookSecretInfo } from '@/types/agent.types';
+
+export const useWebhookSecret = (agentId: string | null) => {
+  return useQuery<WebhookSecretInfo, Error>({
+    queryKey: ['webhook-secret', agentId],
+    queryFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/webhook-secret`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to fetch webhook secret');
+      }
+
+      return response.json();
+    },
+    enabled: Boolean(agentId),
+  });
+};
+
+export const useRotateWebhookSecret = (agentId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation<WebhookSecretInfo, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch(`${API_URL}/api/agents/${agentId}/webhook-secret/rotate`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}));
+        throw new Error(errorPayload.error || 'Failed to rotate webhook secret');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['webhook-secret', agentId], data);
+      toast({
+        title: 'Webhook secret rotated',
+        description: 'Update the secret in your n8n workflows. The previous secret keeps working for a limited time.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Rotation failed',
+        description: error.message,
+      });
+    },
+  });
+};
@@ -20,6 +20,8 @@ export interface AgentStatistics {
   last_message_at: string | null;
   last_message_text: string | null;
   unprocessed_messages: number;
+  incoming_messages?: number;
+  outgoing_messages?: number;
 }
 
 export interface Agent {
@@ -35,6 +37,56 @@ export interface Agent {
   created_at: string;
   updated_at: string;
   whatsapp_session: WhatsAppSession | null;
+  humanize_settings?: HumanizeSettings | null;
+  consent_settings?: ConsentSettings | null;
+  inbound_webhook_settings?: InboundWebhookSettings | null;
+}
+
+/**
+ * Humanized sending: mark the chat read and show "typing…" before each send
+ */
+export interface HumanizeSettings {
+  enabled: boolean;
+  minDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+/**
+ * Opt-out/opt-in keywords matched against whole incoming messages, with confirmation replies
+ */
+export interface ConsentSettings {
+  enabled: boolean;
+  optOutKeywords: string[];
+  optInKeywords: string[];
+  optOutReply: string;
+  optInReply: string;
+}
+
+/**
+ * Where incoming messages are forwarded; without a URL the server-wide webhook is used
+ */
+export interface InboundWebhookSettings {
+  url: string | null;
+  testUrl: string | null;
+  useTestUrl: boolean;
+}
+
+/**
+ * HMAC secret used to sign webhook requests in both directions
+ */
+export interface WebhookSecretInfo {
+  secret: string | null;
+  rotatedAt: string | null;
+  previousSecretValidUntil: string | null;
+}
+
+/**
+ * Partial agent update accepted by PUT /api/agents/:id
+ */
+export interface AgentSettingsUpdate {
+  humanizeSettings?: HumanizeSettings;
+  consentSettings?: ConsentSettings;
+  inboundWebhookSettings?: InboundWebhookSettings;
 }
 
 export interface IntegrationEndpoint {
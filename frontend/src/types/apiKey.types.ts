@@ -0,0 +1,25 @@
+export type ApiKeyScope = 'messages:send' | 'contacts:read' | 'contacts:write' | 'kb:query';
+
+export interface ApiKey {
+  id: string;
+  agent_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  /** Plaintext key, only returned once */
+  key: string;
+}
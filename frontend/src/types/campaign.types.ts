@@ -0,0 +1,58 @@
+export type CampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export type CampaignRecipientCounts = Record<CampaignRecipientStatus, number>;
+
+export interface CampaignContactFilter {
+  contactIds?: string[];
+  company?: string;
+  search?: string;
+}
+
+export interface Campaign {
+  id: string;
+  agent_id: string;
+  name: string;
+  message_template: string;
+  contact_filter: CampaignContactFilter;
+  messages_per_minute: number;
+  status: CampaignStatus;
+  total_recipients: number;
+  excluded_opted_out: number;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  counts?: CampaignRecipientCounts;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  contact_id: string | null;
+  phone_number: string;
+  contact_name: string | null;
+  status: CampaignRecipientStatus;
+  attempts: number;
+  error_message: string | null;
+  wa_message_id: string | null;
+  sent_at: string | null;
+  updated_at: string;
+}
+
+export interface CampaignReport {
+  campaign: Campaign;
+  counts: CampaignRecipientCounts;
+  recipients: CampaignRecipient[];
+  total: number;
+}
+
+export interface CreateCampaignInput {
+  name: string;
+  template: string;
+  filter?: CampaignContactFilter;
+  messagesPerMinute?: number;
+  startPaused?: boolean;
+}
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel';
@@ -7,6 +7,8 @@ export interface Contact {
   company?: string | null;
   notes?: string | null;
   metadata?: Record<string, unknown> | null;
+  opted_out?: boolean;
+  opted_out_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,17 @@
+export type SuppressionReason = 'keyword' | 'manual';
+
+export interface ContactSuppression {
+  id: string;
+  agent_id: string;
+  phone_number: string;
+  contact_id: string | null;
+  reason: SuppressionReason;
+  keyword: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface SuppressionListResponse {
+  suppressions: ContactSuppression[];
+  total: number;
+}
@@ -0,0 +1,40 @@
+export type TemplateMediaType = 'image' | 'video' | 'audio' | 'document';
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue?: string;
+}
+
+export interface TemplateMedia {
+  type: TemplateMediaType;
+  url: string;
+  mimetype?: string;
+  fileName?: string;
+}
+
+export interface MessageTemplate {
+  id: string;
+  agent_id: string;
+  name: string;
+  language: string;
+  description: string | null;
+  body: string;
+  variables: TemplateVariable[];
+  media: TemplateMedia | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageTemplateInput {
+  name: string;
+  language?: string;
+  description?: string | null;
+  body: string;
+  variables: TemplateVariable[];
+  media?: TemplateMedia | null;
+}
+
+export interface TemplatePreview {
+  text: string;
+  media: TemplateMedia | null;
+}
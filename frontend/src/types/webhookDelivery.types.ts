@@ -0,0 +1,23 @@
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  id: string;
+  agent_id: string;
+  event_type: string;
+  message_id: string | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  dead_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDeliveryListResponse {
+  deliveries: WebhookDelivery[];
+  total: number;
+}